@@ -9,6 +9,8 @@ const CONFIG_PATH = join(AMICII_DIR, "config.json");
 const DB_PATH = join(AMICII_DIR, "storage.sqlite");
 const PID_PATH = join(AMICII_DIR, "amicii.pid");
 const LOG_PATH = join(AMICII_DIR, "amicii.log");
+const IDENTITIES_DIR = join(AMICII_DIR, "identities");
+const TEMPLATES_DIR = join(AMICII_DIR, "templates");
 
 export const paths = {
   dir: AMICII_DIR,
@@ -16,6 +18,8 @@ export const paths = {
   db: DB_PATH,
   pid: PID_PATH,
   log: LOG_PATH,
+  identities: IDENTITIES_DIR,
+  templates: TEMPLATES_DIR,
 };
 
 /**
@@ -3,6 +3,13 @@ import { paths, ensureDir } from "./config.js";
 
 let db: Database | null = null;
 
+/**
+ * SQL expression for the current time as an ISO-8601 string.
+ * Timestamps written from JS (expires_ts, read_ts, ...) use toISOString(),
+ * which does not compare correctly against datetime('now').
+ */
+export const NOW_ISO = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
 /**
  * Get or create database connection.
  */
@@ -20,6 +27,7 @@ export function getDb(): Database {
   db.run("PRAGMA cache_size = -64000"); // 64MB cache
 
   ensureSchema(db);
+  migrateSchema(db);
   return db;
 }
 
@@ -42,6 +50,7 @@ function ensureSchema(db: Database): void {
       id INTEGER PRIMARY KEY,
       slug TEXT UNIQUE NOT NULL,
       human_key TEXT UNIQUE NOT NULL,
+      strict_reservations INTEGER NOT NULL DEFAULT 0,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     )
   `);
@@ -50,6 +59,16 @@ function ensureSchema(db: Database): void {
     CREATE INDEX IF NOT EXISTS idx_projects_slug ON projects(slug)
   `);
 
+  // One row per project that agreed to a link; agents can message each other once both directions exist
+  db.run(`
+    CREATE TABLE IF NOT EXISTS project_links (
+      project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      linked_project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      created_ts TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (project_id, linked_project_id)
+    )
+  `);
+
   db.run(`
     CREATE TABLE IF NOT EXISTS agents (
       id INTEGER PRIMARY KEY,
@@ -58,6 +77,7 @@ function ensureSchema(db: Database): void {
       program TEXT NOT NULL,
       model TEXT NOT NULL,
       task_description TEXT DEFAULT '',
+      token_hash TEXT,
       inception_ts TEXT NOT NULL DEFAULT (datetime('now')),
       last_active_ts TEXT NOT NULL DEFAULT (datetime('now')),
       UNIQUE(project_id, name)
@@ -67,6 +87,16 @@ function ensureSchema(db: Database): void {
   db.run(`CREATE INDEX IF NOT EXISTS idx_agents_project ON agents(project_id)`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_agents_project_name ON agents(project_id, name)`);
 
+  db.run(`
+    CREATE TABLE IF NOT EXISTS agent_roles (
+      agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      PRIMARY KEY (agent_id, role)
+    )
+  `);
+
+  db.run(`CREATE INDEX IF NOT EXISTS idx_agent_roles_role ON agent_roles(role)`);
+
   db.run(`
     CREATE TABLE IF NOT EXISTS messages (
       id INTEGER PRIMARY KEY,
@@ -79,6 +109,15 @@ function ensureSchema(db: Database): void {
       cc_agents TEXT DEFAULT '',
       importance TEXT NOT NULL DEFAULT 'normal' CHECK(importance IN ('low','normal','high','urgent')),
       ack_required INTEGER NOT NULL DEFAULT 0,
+      reply_to_id INTEGER REFERENCES messages(id) ON DELETE SET NULL,
+      ack_within_seconds INTEGER,
+      deliver_ts TEXT,
+      delivered_ts TEXT,
+      expires_ts TEXT,
+      edited_ts TEXT,
+      retracted_ts TEXT,
+      kind TEXT,
+      payload TEXT,
       created_ts TEXT NOT NULL DEFAULT (datetime('now'))
     )
   `);
@@ -94,6 +133,13 @@ function ensureSchema(db: Database): void {
       kind TEXT NOT NULL CHECK(kind IN ('to','cc','bcc')),
       read_ts TEXT,
       ack_ts TEXT,
+      ack_due_ts TEXT,
+      ack_reminders INTEGER NOT NULL DEFAULT 0,
+      mentioned INTEGER NOT NULL DEFAULT 0,
+      archived_ts TEXT,
+      starred INTEGER NOT NULL DEFAULT 0,
+      labels TEXT NOT NULL DEFAULT '',
+      deferred_until TEXT,
       PRIMARY KEY (message_id, agent_id)
     )
   `);
@@ -101,6 +147,65 @@ function ensureSchema(db: Database): void {
   db.run(`CREATE INDEX IF NOT EXISTS idx_recipients_agent ON message_recipients(agent_id)`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_recipients_unread ON message_recipients(agent_id) WHERE read_ts IS NULL`);
 
+  db.run(`
+    CREATE TABLE IF NOT EXISTS message_revisions (
+      id INTEGER PRIMARY KEY,
+      message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      action TEXT NOT NULL CHECK(action IN ('edit','retract')),
+      subject TEXT NOT NULL,
+      body_md TEXT NOT NULL,
+      payload TEXT,
+      reason TEXT DEFAULT '',
+      created_ts TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  db.run(`CREATE INDEX IF NOT EXISTS idx_revisions_message ON message_revisions(message_id)`);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS channels (
+      id INTEGER PRIMARY KEY,
+      project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT DEFAULT '',
+      created_by INTEGER REFERENCES agents(id) ON DELETE SET NULL,
+      created_ts TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(project_id, name)
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS channel_members (
+      channel_id INTEGER NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+      agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+      joined_ts TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (channel_id, agent_id)
+    )
+  `);
+
+  db.run(`CREATE INDEX IF NOT EXISTS idx_channel_members_agent ON channel_members(agent_id)`);
+
+  // Messages posted to a channel (a message may go to several)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS channel_messages (
+      channel_id INTEGER NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+      message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      PRIMARY KEY (channel_id, message_id)
+    )
+  `);
+
+  // Who may message an agent; allow/block hold comma-separated agent names
+  db.run(`
+    CREATE TABLE IF NOT EXISTS contact_policies (
+      agent_id INTEGER PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+      mode TEXT NOT NULL DEFAULT 'open' CHECK(mode IN ('open','allowlist')),
+      allow TEXT NOT NULL DEFAULT '',
+      block TEXT NOT NULL DEFAULT '',
+      dnd_until TEXT,
+      updated_ts TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
   db.run(`
     CREATE TABLE IF NOT EXISTS file_reservations (
       id INTEGER PRIMARY KEY,
@@ -109,6 +214,8 @@ function ensureSchema(db: Database): void {
       path_pattern TEXT NOT NULL,
       exclusive INTEGER NOT NULL DEFAULT 1,
       reason TEXT DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'granted',
+      ttl_seconds INTEGER,
       created_ts TEXT NOT NULL DEFAULT (datetime('now')),
       expires_ts TEXT NOT NULL,
       released_ts TEXT
@@ -160,6 +267,49 @@ function ensureSchema(db: Database): void {
   }
 }
 
+/**
+ * Add a column to an existing table if it is missing.
+ */
+function ensureColumn(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+  if (!columns.some(c => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Bring databases created by earlier versions up to the current schema.
+ */
+function migrateSchema(db: Database): void {
+  ensureColumn(db, "agents", "token_hash", "TEXT");
+  ensureColumn(db, "messages", "reply_to_id", "INTEGER REFERENCES messages(id) ON DELETE SET NULL");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_messages_reply_to ON messages(reply_to_id) WHERE reply_to_id IS NOT NULL`);
+  ensureColumn(db, "messages", "ack_within_seconds", "INTEGER");
+  ensureColumn(db, "message_recipients", "ack_due_ts", "TEXT");
+  ensureColumn(db, "message_recipients", "ack_reminders", "INTEGER NOT NULL DEFAULT 0");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_recipients_ack_due ON message_recipients(ack_due_ts) WHERE ack_ts IS NULL AND ack_due_ts IS NOT NULL`);
+  ensureColumn(db, "messages", "deliver_ts", "TEXT");
+  ensureColumn(db, "messages", "delivered_ts", "TEXT");
+  ensureColumn(db, "messages", "expires_ts", "TEXT");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_messages_scheduled ON messages(deliver_ts) WHERE delivered_ts IS NULL AND deliver_ts IS NOT NULL`);
+  ensureColumn(db, "messages", "edited_ts", "TEXT");
+  ensureColumn(db, "messages", "retracted_ts", "TEXT");
+  ensureColumn(db, "message_recipients", "mentioned", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn(db, "message_recipients", "archived_ts", "TEXT");
+  ensureColumn(db, "message_recipients", "starred", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn(db, "message_recipients", "labels", "TEXT NOT NULL DEFAULT ''");
+  ensureColumn(db, "messages", "kind", "TEXT");
+  ensureColumn(db, "messages", "payload", "TEXT");
+  ensureColumn(db, "message_revisions", "payload", "TEXT");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_messages_kind ON messages(project_id, kind) WHERE kind IS NOT NULL`);
+  ensureColumn(db, "message_recipients", "deferred_until", "TEXT");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_recipients_deferred ON message_recipients(deferred_until) WHERE deferred_until IS NOT NULL`);
+  ensureColumn(db, "projects", "strict_reservations", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn(db, "file_reservations", "status", "TEXT NOT NULL DEFAULT 'granted'");
+  ensureColumn(db, "file_reservations", "ttl_seconds", "INTEGER");
+  db.run(`CREATE INDEX IF NOT EXISTS idx_reservations_waiting ON file_reservations(project_id, id) WHERE status = 'waiting' AND released_ts IS NULL`);
+}
+
 /**
  * Run retention cleanup - delete old messages and reservations.
  */
@@ -171,7 +321,7 @@ export function runRetention(retentionDays: number): { messages: number; reserva
   database.run(`
     UPDATE file_reservations 
     SET released_ts = expires_ts 
-    WHERE released_ts IS NULL AND expires_ts < datetime('now')
+    WHERE released_ts IS NULL AND expires_ts < ${NOW_ISO}
   `);
 
   // Delete old messages (this cascades to message_recipients and updates FTS via triggers)
@@ -182,7 +332,7 @@ export function runRetention(retentionDays: number): { messages: number; reserva
   // Delete old released/expired reservations
   const resResult = database.run(`
     DELETE FROM file_reservations 
-    WHERE (released_ts IS NOT NULL OR expires_ts < datetime('now'))
+    WHERE (released_ts IS NOT NULL OR expires_ts < ${NOW_ISO})
       AND created_ts < datetime('now', ?)
   `, [cutoff]);
 
@@ -208,7 +358,7 @@ export function getStats(): {
   const messages = database.query("SELECT COUNT(*) as count FROM messages").get() as { count: number };
   const reservations = database.query(`
     SELECT COUNT(*) as count FROM file_reservations 
-    WHERE released_ts IS NULL AND expires_ts > datetime('now')
+    WHERE status = 'granted' AND released_ts IS NULL AND expires_ts > ${NOW_ISO}
   `).get() as { count: number };
 
   return {
@@ -0,0 +1,60 @@
+import type { AmiciiEvent, EventType } from "./types.js";
+
+/**
+ * In-process event bus. Handlers publish, SSE streams subscribe.
+ */
+
+type Listener = (event: AmiciiEvent) => void;
+
+const listeners = new Set<Listener>();
+let nextId = 1;
+
+/**
+ * Publish an event to all subscribers.
+ */
+export function publish(
+  type: EventType,
+  project: string,
+  data: Record<string, unknown>,
+  audience?: string[]
+): AmiciiEvent {
+  const event: AmiciiEvent = {
+    id: nextId++,
+    type,
+    project,
+    ts: new Date().toISOString(),
+    audience,
+    data,
+  };
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error("Event listener error:", e);
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Subscribe to events. Returns an unsubscribe function.
+ */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Check if an event is relevant to a project and (optionally) an agent.
+ * Events without an audience are visible to every agent in the project;
+ * the others only to their audience, never to a stream without an agent.
+ */
+export function eventMatches(event: AmiciiEvent, project: string, agent?: string): boolean {
+  if (event.project !== project) return false;
+  if (!event.audience) return true;
+  return agent !== undefined && event.audience.includes(agent);
+}
@@ -1,8 +1,17 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
 import { getDb } from "../db.js";
-import type { Agent, Result, ApiError } from "../types.js";
+import { publish } from "../events.js";
+import type { Agent, RegisteredAgent, Page, PageQuery, Result, ApiError } from "../types.js";
 import { Ok, Err } from "../types.js";
 import { getProject } from "./project.js";
 import { generateUniqueName, isValidName } from "../utils/names.js";
+import { pageClause, toPage } from "../utils/cursor.js";
+
+// Public agent columns (never expose token_hash), with roles as a sorted comma-separated list
+const AGENT_COLUMNS = `id, project_id, name, program, model, task_description, inception_ts, last_active_ts,
+  COALESCE((SELECT GROUP_CONCAT(role) FROM (SELECT role FROM agent_roles WHERE agent_id = agents.id ORDER BY role)), '') as roles`;
+
+const ROLE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
 
 export interface RegisterAgentInput {
   projectSlug: string;
@@ -10,12 +19,84 @@ export interface RegisterAgentInput {
   program: string;
   model: string;
   taskDescription?: string;
+  token?: string;
+  roles?: string[]; // replaces the agent's roles when given
+}
+
+export interface ListAgentsQuery extends PageQuery {
+  role?: string;
+}
+
+/**
+ * Validate and normalize role names (lowercase, deduplicated).
+ */
+function normalizeRoles(roles: string[]): Result<string[], ApiError> {
+  const normalized = [...new Set(roles.map(r => r.trim().toLowerCase()).filter(Boolean))];
+  const invalid = normalized.find(r => !ROLE_PATTERN.test(r));
+  if (invalid !== undefined) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `Invalid role: ${invalid} (lowercase letters, digits, _ and -)`,
+      recoverable: true,
+    });
+  }
+  return Ok(normalized);
+}
+
+/**
+ * Replace an agent's roles.
+ */
+function setRoles(agentId: number, roles: string[]): void {
+  const db = getDb();
+  db.run("DELETE FROM agent_roles WHERE agent_id = ?", [agentId]);
+  for (const role of roles) {
+    db.run("INSERT INTO agent_roles (agent_id, role) VALUES (?, ?)", [agentId, role]);
+  }
+}
+
+/**
+ * Agents in a project that have a role.
+ */
+export function getAgentsWithRole(projectId: number, role: string): { id: number; name: string }[] {
+  return getDb().query<{ id: number; name: string }, [number, string]>(`
+    SELECT a.id, a.name
+    FROM agents a
+    JOIN agent_roles r ON r.agent_id = a.id
+    WHERE a.project_id = ? AND r.role = ?
+    ORDER BY a.name
+  `).all(projectId, role.trim().toLowerCase());
+}
+
+/**
+ * Generate a new agent token.
+ */
+function generateToken(): string {
+  return `am_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Hash a token for storage.
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Compare a token against a stored hash in constant time.
+ */
+function tokenMatches(token: string, hash: string): boolean {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(hash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
 }
 
 /**
  * Register or update an agent.
+ * New agents (and legacy agents without a token) are issued a token.
+ * Updating an agent that has a token requires presenting it.
+ * Roles are replaced only when given.
  */
-export function registerAgent(input: RegisterAgentInput): Result<Agent, ApiError> {
+export function registerAgent(input: RegisterAgentInput): Result<RegisteredAgent, ApiError> {
   const db = getDb();
 
   // Get project
@@ -23,6 +104,13 @@ export function registerAgent(input: RegisterAgentInput): Result<Agent, ApiError
   if (!projectResult.ok) return projectResult;
   const project = projectResult.value;
 
+  let roles: string[] | undefined;
+  if (input.roles !== undefined) {
+    const rolesResult = normalizeRoles(input.roles);
+    if (!rolesResult.ok) return rolesResult;
+    roles = rolesResult.value;
+  }
+
   // Get existing agent names
   const existingAgents = db.query<{ name: string }, [number]>(
     "SELECT name FROM agents WHERE project_id = ?"
@@ -43,34 +131,52 @@ export function registerAgent(input: RegisterAgentInput): Result<Agent, ApiError
   }
 
   // Check if agent already exists
-  const existing = db.query<Agent, [number, string]>(
-    "SELECT * FROM agents WHERE project_id = ? AND name = ?"
+  const existing = db.query<{ id: number; token_hash: string | null }, [number, string]>(
+    "SELECT id, token_hash FROM agents WHERE project_id = ? AND name = ?"
   ).get(project.id, name);
 
   if (existing) {
+    if (existing.token_hash && !(input.token && tokenMatches(input.token, existing.token_hash))) {
+      return Err({
+        type: "UNAUTHORIZED",
+        message: `Agent ${name} is already registered; a valid token is required to update it`,
+        recoverable: true,
+      });
+    }
+
+    // Legacy agents registered before tokens get one now
+    const token = existing.token_hash ? undefined : generateToken();
+
     // Update existing agent
     db.run(`
       UPDATE agents 
-      SET program = ?, model = ?, task_description = ?, last_active_ts = datetime('now')
+      SET program = ?, model = ?, task_description = ?, token_hash = COALESCE(token_hash, ?), last_active_ts = datetime('now')
       WHERE id = ?
-    `, [input.program, input.model, input.taskDescription ?? "", existing.id]);
+    `, [input.program, input.model, input.taskDescription ?? "", token ? hashToken(token) : null, existing.id]);
+
+    if (roles) setRoles(existing.id, roles);
 
     const updated = db.query<Agent, [number]>(
-      "SELECT * FROM agents WHERE id = ?"
+      `SELECT ${AGENT_COLUMNS} FROM agents WHERE id = ?`
     ).get(existing.id);
 
-    return Ok(updated!);
+    return Ok(token ? { ...updated!, token } : updated!);
   }
 
   // Create new agent
   try {
+    const token = generateToken();
+
     db.run(`
-      INSERT INTO agents (project_id, name, program, model, task_description)
-      VALUES (?, ?, ?, ?, ?)
-    `, [project.id, name, input.program, input.model, input.taskDescription ?? ""]);
+      INSERT INTO agents (project_id, name, program, model, task_description, token_hash)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [project.id, name, input.program, input.model, input.taskDescription ?? "", hashToken(token)]);
+
+    const createdId = db.query<{ id: number }, []>("SELECT last_insert_rowid() as id").get()!.id;
+    if (roles) setRoles(createdId, roles);
 
     const created = db.query<Agent, [number, string]>(
-      "SELECT * FROM agents WHERE project_id = ? AND name = ?"
+      `SELECT ${AGENT_COLUMNS} FROM agents WHERE project_id = ? AND name = ?`
     ).get(project.id, name);
 
     if (!created) {
@@ -81,7 +187,9 @@ export function registerAgent(input: RegisterAgentInput): Result<Agent, ApiError
       });
     }
 
-    return Ok(created);
+    publish("agent.registered", project.slug, { agent: created });
+
+    return Ok({ ...created, token });
   } catch (error) {
     return Err({
       type: "AGENT_CREATE_FAILED",
@@ -102,7 +210,7 @@ export function getAgent(projectSlug: string, agentName: string): Result<Agent,
   const project = projectResult.value;
 
   const agent = db.query<Agent, [number, string]>(
-    "SELECT * FROM agents WHERE project_id = ? AND name = ?"
+    `SELECT ${AGENT_COLUMNS} FROM agents WHERE project_id = ? AND name = ?`
   ).get(project.id, agentName);
 
   if (!agent) {
@@ -134,20 +242,32 @@ export function getAgent(projectSlug: string, agentName: string): Result<Agent,
 }
 
 /**
- * List agents in a project.
+ * List a page of agents in a project, in registration order.
+ * Pages on id: last_active_ts changes on nearly every request, so it cannot anchor a cursor.
  */
-export function listAgents(projectSlug: string): Result<Agent[], ApiError> {
+export function listAgents(projectSlug: string, query: ListAgentsQuery = {}): Result<Page<Agent>, ApiError> {
   const db = getDb();
 
   const projectResult = getProject(projectSlug);
   if (!projectResult.ok) return projectResult;
   const project = projectResult.value;
 
-  const agents = db.query<Agent, [number]>(
-    "SELECT * FROM agents WHERE project_id = ? ORDER BY last_active_ts DESC"
-  ).all(project.id);
+  let sql = `SELECT ${AGENT_COLUMNS} FROM agents WHERE project_id = ?`;
+  const params: (number | string)[] = [project.id];
+
+  if (query.role) {
+    sql += " AND id IN (SELECT agent_id FROM agent_roles WHERE role = ?)";
+    params.push(query.role.trim().toLowerCase());
+  }
+
+  const clause = pageClause(query, ["id"], "ASC");
+  if (!clause.ok) return clause;
+  sql += clause.value.where + clause.value.orderBy + clause.value.limit;
+  params.push(...clause.value.params);
 
-  return Ok(agents);
+  const agents = db.query<Agent, (number | string)[]>(sql).all(...params);
+
+  return Ok(toPage(agents, query, a => [a.id]));
 }
 
 /**
@@ -156,6 +276,32 @@ export function listAgents(projectSlug: string): Result<Agent[], ApiError> {
 export function getAgentById(id: number): Agent | null {
   const db = getDb();
   return db.query<Agent, [number]>(
-    "SELECT * FROM agents WHERE id = ?"
+    `SELECT ${AGENT_COLUMNS} FROM agents WHERE id = ?`
   ).get(id) ?? null;
 }
+
+/**
+ * Resolve an agent and verify the bearer token it presented.
+ */
+export function authenticateAgent(projectSlug: string, agentName: string, token?: string): Result<Agent, ApiError> {
+  const agentResult = getAgent(projectSlug, agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const db = getDb();
+  const row = db.query<{ token_hash: string | null }, [number]>(
+    "SELECT token_hash FROM agents WHERE id = ?"
+  ).get(agent.id);
+
+  if (!token || !row?.token_hash || !tokenMatches(token, row.token_hash)) {
+    return Err({
+      type: "UNAUTHORIZED",
+      message: row?.token_hash
+        ? `Invalid or missing token for agent ${agentName}`
+        : `Agent ${agentName} has no token. Re-register with: am agent register --name ${agentName}`,
+      recoverable: true,
+    });
+  }
+
+  return Ok(agent);
+}
@@ -0,0 +1,213 @@
+import { getDb } from "../db.js";
+import type { Channel, ChannelSummary, MessageWithSender, Stored, Page, PageQuery, Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+import { getProject } from "./project.js";
+import { getAgent } from "./agent.js";
+import { DELIVERED_SQL, UNDEFERRED_SQL, withPayload } from "./message.js";
+import { pageClause, toPage } from "../utils/cursor.js";
+
+const CHANNEL_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export interface ChannelInput {
+  projectSlug: string;
+  agentName: string;
+  name: string;
+}
+
+export interface CreateChannelInput extends ChannelInput {
+  description?: string;
+}
+
+export interface ChannelHistoryQuery extends PageQuery {
+  projectSlug: string;
+  agentName: string;
+  name: string;
+}
+
+/**
+ * Strip a leading "#" from a channel name.
+ */
+export function normalizeChannelName(name: string): string {
+  return name.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Look up a channel in a project by name (with or without "#").
+ */
+export function getChannel(projectId: number, name: string): Result<Channel, ApiError> {
+  const channel = getDb().query<Channel, [number, string]>(
+    "SELECT * FROM channels WHERE project_id = ? AND name = ?"
+  ).get(projectId, normalizeChannelName(name));
+
+  if (!channel) {
+    return Err({
+      type: "CHANNEL_NOT_FOUND",
+      message: `Channel not found: #${normalizeChannelName(name)}. Create it with: am channel create ${normalizeChannelName(name)}`,
+      recoverable: true,
+    });
+  }
+
+  return Ok(channel);
+}
+
+/**
+ * Current subscribers of a channel.
+ */
+export function getChannelMembers(channelId: number): { id: number; name: string }[] {
+  return getDb().query<{ id: number; name: string }, [number]>(`
+    SELECT a.id, a.name
+    FROM channel_members cm
+    JOIN agents a ON cm.agent_id = a.id
+    WHERE cm.channel_id = ?
+    ORDER BY a.name
+  `).all(channelId);
+}
+
+/**
+ * Create a channel. The creator joins it.
+ */
+export function createChannel(input: CreateChannelInput): Result<Channel, ApiError> {
+  const db = getDb();
+
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const name = normalizeChannelName(input.name);
+  if (!CHANNEL_NAME_PATTERN.test(name)) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `Invalid channel name: ${input.name} (lowercase letters, digits, _ and -)`,
+      recoverable: true,
+    });
+  }
+
+  const existing = db.query<Channel, [number, string]>(
+    "SELECT * FROM channels WHERE project_id = ? AND name = ?"
+  ).get(agent.project_id, name);
+  if (existing) {
+    return Err({
+      type: "CHANNEL_EXISTS",
+      message: `Channel #${name} already exists`,
+      recoverable: true,
+    });
+  }
+
+  const channel = db.query<Channel, [number, string, string, number]>(`
+    INSERT INTO channels (project_id, name, description, created_by)
+    VALUES (?, ?, ?, ?)
+    RETURNING *
+  `).get(agent.project_id, name, input.description ?? "", agent.id)!;
+
+  db.run("INSERT INTO channel_members (channel_id, agent_id) VALUES (?, ?)", [channel.id, agent.id]);
+
+  return Ok(channel);
+}
+
+/**
+ * Subscribe an agent to a channel.
+ */
+export function joinChannel(input: ChannelInput): Result<{ joined: boolean; channel: string }, ApiError> {
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const channelResult = getChannel(agent.project_id, input.name);
+  if (!channelResult.ok) return channelResult;
+  const channel = channelResult.value;
+
+  getDb().run(
+    "INSERT OR IGNORE INTO channel_members (channel_id, agent_id) VALUES (?, ?)",
+    [channel.id, agent.id]
+  );
+
+  return Ok({ joined: true, channel: channel.name });
+}
+
+/**
+ * Unsubscribe an agent from a channel.
+ */
+export function leaveChannel(input: ChannelInput): Result<{ left: boolean; channel: string }, ApiError> {
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const channelResult = getChannel(agent.project_id, input.name);
+  if (!channelResult.ok) return channelResult;
+  const channel = channelResult.value;
+
+  const result = getDb().run(
+    "DELETE FROM channel_members WHERE channel_id = ? AND agent_id = ?",
+    [channel.id, agent.id]
+  );
+
+  return Ok({ left: result.changes > 0, channel: channel.name });
+}
+
+/**
+ * List channels in a project with their members.
+ * `joined` is relative to agentName when given.
+ */
+export function listChannels(projectSlug: string, agentName?: string): Result<ChannelSummary[], ApiError> {
+  const projectResult = getProject(projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const channels = getDb().query<Channel, [number]>(
+    "SELECT * FROM channels WHERE project_id = ? ORDER BY name"
+  ).all(project.id);
+
+  return Ok(channels.map(channel => {
+    const members = getChannelMembers(channel.id).map(m => m.name);
+    return {
+      ...channel,
+      member_count: members.length,
+      members,
+      joined: agentName !== undefined && members.includes(agentName),
+    };
+  }));
+}
+
+/**
+ * Messages posted to a channel, newest first. Only members may read it;
+ * the full history is shown, so late joiners can catch up, except messages
+ * deferred by the reader's do not disturb.
+ */
+export function channelHistory(query: ChannelHistoryQuery): Result<Page<MessageWithSender>, ApiError> {
+  const db = getDb();
+
+  const projectResult = getProject(query.projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const agentResult = getAgent(query.projectSlug, query.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const channelResult = getChannel(project.id, query.name);
+  if (!channelResult.ok) return channelResult;
+  const channel = channelResult.value;
+
+  if (!getChannelMembers(channel.id).some(m => m.id === agent.id)) {
+    return Err({
+      type: "NOT_CHANNEL_MEMBER",
+      message: `${agent.name} is not a member of #${channel.name} (join it first)`,
+      recoverable: true,
+    });
+  }
+
+  const clause = pageClause(query, ["m.created_ts", "m.id"], "DESC");
+  if (!clause.ok) return clause;
+
+  const messages = db.query<Stored<MessageWithSender>, (number | string)[]>(`
+    SELECT m.*, a.name as sender_name
+    FROM channel_messages cm
+    JOIN messages m ON cm.message_id = m.id
+    JOIN agents a ON m.sender_id = a.id
+    LEFT JOIN message_recipients mr ON mr.message_id = m.id AND mr.agent_id = ?
+    WHERE cm.channel_id = ? AND ${DELIVERED_SQL} AND ${UNDEFERRED_SQL}
+    ${clause.value.where}${clause.value.orderBy}${clause.value.limit}
+  `).all(agent.id, channel.id, ...clause.value.params).map(withPayload);
+
+  return Ok(toPage(messages, query, m => [m.created_ts, m.id]));
+}
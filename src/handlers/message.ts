@@ -1,23 +1,171 @@
-import { getDb } from "../db.js";
-import type { Message, MessageRecipient, InboxMessage, MessageWithSender, Result, ApiError } from "../types.js";
-import { Ok, Err } from "../types.js";
-import { getProject } from "./project.js";
-import { getAgent, getAgentById } from "./agent.js";
+import { getDb, NOW_ISO } from "../db.js";
+import { publish, subscribe } from "../events.js";
+import type { EventType, Project, Agent, Importance, Message, Stored, MessageRecipient, InboxMessage, MessageWithSender, MessageWithReceipts, RecipientStatus, PendingAck, PendingAcks, Page, PageQuery, Result, ApiError } from "../types.js";
+import { Ok, Err, IMPORTANCE_LEVELS } from "../types.js";
+import { getProject, getProjectById, projectsLinked } from "./project.js";
+import { getAgent, getAgentById, getAgentsWithRole } from "./agent.js";
+import { formatDuration } from "../utils/duration.js";
+import { pageClause, toPage } from "../utils/cursor.js";
+import { validatePayload } from "../kinds.js";
+import { getChannel, getChannelMembers } from "./channel.js";
+import { getContactPolicies, blocksSender } from "./policy.js";
 
 export interface SendMessageInput {
   projectSlug: string;
   sender: string;
   to: string[];
   cc?: string[];
+  bcc?: string[];
   subject: string;
   bodyMd: string;
   threadId?: string;
-  importance?: "low" | "normal" | "high" | "urgent";
+  importance?: Importance;
   ackRequired?: boolean;
+  replyToId?: number;
+  ackWithinSeconds?: number;
+  deliverAt?: string;
+  expiresAt?: string;
+  mentions?: boolean; // parse @mentions (default true)
+  kind?: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * SQL condition: message m is due (not scheduled for later).
+ */
+export const DELIVERED_SQL = `(m.deliver_ts IS NULL OR m.deliver_ts <= ${NOW_ISO})`;
+
+/**
+ * SQL condition: message m has not expired.
+ */
+export const UNEXPIRED_SQL = `(m.expires_ts IS NULL OR m.expires_ts > ${NOW_ISO})`;
+
+/**
+ * SQL condition: recipient row mr is not held back by do not disturb.
+ * Also true when mr is a LEFT JOIN that found no row.
+ */
+export const UNDEFERRED_SQL = `(mr.deferred_until IS NULL OR mr.deferred_until <= ${NOW_ISO})`;
+
+/**
+ * SQL expression: when message m reached inboxes, as ISO. Scheduled messages
+ * count from their delivery time (when DELIVERED_SQL lets them through), not
+ * from creation; created_ts is only a fallback for rows older than delivered_ts.
+ */
+const INBOX_TS_SQL = `strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(m.deliver_ts, m.delivered_ts, m.created_ts))`;
+
+/**
+ * SQL expression ranking m.importance (low = 0 ... urgent = 3).
+ */
+const IMPORTANCE_RANK_SQL = `CASE m.importance ${IMPORTANCE_LEVELS.map((level, i) => `WHEN '${level}' THEN ${i}`).join(" ")} END`;
+
+/**
+ * SQL expression addressing agent a on message m: its name, or
+ * "Name@project-slug" when it belongs to another (linked) project.
+ */
+const ADDRESS_SQL = `CASE WHEN a.project_id = m.project_id THEN a.name ELSE a.name || '@' || (SELECT slug FROM projects WHERE id = a.project_id) END`;
+
+const MENTION_PATTERN = /(?<![\w@.])@([A-Za-z][\w-]*)/g;
+
+/**
+ * Find project agents mentioned as @Name (case-insensitive) in a message.
+ * Quoted lines ("> ...") are ignored so quoting a message does not re-mention.
+ */
+function findMentions(projectId: number, text: string): { id: number; name: string }[] {
+  const unquoted = text.split("\n").filter(line => !line.trimStart().startsWith(">")).join("\n");
+  const names = new Set([...unquoted.matchAll(MENTION_PATTERN)].map(m => m[1].toLowerCase()));
+  if (names.size === 0) return [];
+
+  const agents = getDb().query<{ id: number; name: string }, [number]>(
+    "SELECT id, name FROM agents WHERE project_id = ?"
+  ).all(projectId);
+  return agents.filter(a => names.has(a.name.toLowerCase()));
+}
+
+/**
+ * Resolve "Name@project-slug" to an agent in a linked project.
+ * The name keeps the address form, as listed in to_agents/cc_agents.
+ */
+function resolveLinkedAgent(project: Project, address: string): Result<{ id: number; name: string }, ApiError> {
+  const [name, slug] = address.split("@");
+  const targetResult = getProject(slug);
+  if (!targetResult.ok) return targetResult;
+  const target = targetResult.value;
+
+  if (target.id === project.id) {
+    return getAgent(project.slug, name);
+  }
+
+  if (!projectsLinked(project.id, target.id)) {
+    return Err({
+      type: "PROJECT_NOT_LINKED",
+      message: `Project ${target.slug} is not linked to ${project.slug}. Both projects must run: am project link <path>`,
+      recoverable: true,
+    });
+  }
+
+  const agentResult = getAgent(target.slug, name);
+  if (!agentResult.ok) return agentResult;
+  return Ok({ id: agentResult.value.id, name: `${agentResult.value.name}@${target.slug}` });
+}
+
+/**
+ * Publish a message event to agent addresses (Name or Name@project-slug),
+ * each in its own project's stream.
+ */
+export function publishToAddresses(type: EventType, projectSlug: string, data: Record<string, unknown>, addresses: string[]): void {
+  const byProject = new Map<string, string[]>();
+  for (const address of addresses) {
+    const [name, slug = projectSlug] = address.split("@");
+    byProject.set(slug, [...(byProject.get(slug) ?? []), name]);
+  }
+
+  for (const [slug, names] of byProject) {
+    publish(type, slug, data, names);
+  }
+}
+
+/**
+ * Publish message.new to recipient addresses, each in its own project's stream.
+ */
+function publishNewMessage(projectSlug: string, message: MessageWithSender, addresses: string[]): void {
+  publishToAddresses("message.new", projectSlug, { message }, addresses);
+}
+
+/**
+ * Parse the payload of a stored message or revision row, for responses and events.
+ */
+export function withPayload<T extends { payload: string | null }>(row: T): Omit<T, "payload"> & { payload: Record<string, unknown> | null } {
+  return { ...row, payload: row.payload === null ? null : JSON.parse(row.payload) };
+}
+
+/**
+ * Normalize an ISO timestamp input, returns null if it does not parse.
+ */
+function parseTimestamp(value: string): string | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
 }
 
 /**
  * Send a message.
+ * Replies inherit the parent's thread unless a thread is given.
+ * An ack deadline implies ack_required.
+ * BCC recipients are not listed in to_agents/cc_agents; only the sender sees them.
+ * Messages with a future deliverAt stay hidden from recipients until
+ * deliverScheduledMessages() picks them up.
+ * Agents @mentioned in the subject or body are added as cc when not
+ * already addressed, and flagged as mentioned on their recipient row.
+ * A kind's payload is validated against its registered schema.
+ * "#name" recipients deliver to the channel's current subscribers and
+ * record the message in the channel's history.
+ * "role:name" recipients (to, cc or bcc) resolve to the agents holding
+ * that role at send time, excluding the sender.
+ * Contact policies: a recipient addressed by name who blocks the sender fails
+ * the send with RECIPIENT_BLOCKED; recipients reached through "all", a role,
+ * a channel or a mention are dropped instead. Below-urgent messages to an
+ * agent in do-not-disturb are deferred until it ends (releaseDeferredMessages()).
+ * "Name@project-slug" recipients reach agents in linked projects; the message
+ * stays in the sender's project and shows up in their inbox with its origin.
  */
 export function sendMessage(input: SendMessageInput): Result<Message, ApiError> {
   const db = getDb();
@@ -32,9 +180,80 @@ export function sendMessage(input: SendMessageInput): Result<Message, ApiError>
   if (!senderResult.ok) return senderResult;
   const sender = senderResult.value;
 
+  if (input.importance && !IMPORTANCE_LEVELS.includes(input.importance)) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `importance must be one of: ${IMPORTANCE_LEVELS.join(", ")}`,
+      recoverable: true,
+    });
+  }
+
+  let payload: string | null = null;
+  if (input.kind !== undefined) {
+    const payloadResult = validatePayload(input.kind, input.payload);
+    if (!payloadResult.ok) return payloadResult;
+    payload = JSON.stringify(payloadResult.value);
+  } else if (input.payload !== undefined) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "payload requires a kind",
+      recoverable: true,
+    });
+  }
+
+  let threadId = input.threadId ?? null;
+  if (input.replyToId !== undefined) {
+    // Messages received from a linked project can be replied to as well
+    const parent = db.query<Stored<Message>, [number, number, number]>(`
+      SELECT * FROM messages
+      WHERE id = ? AND (project_id = ? OR id IN (SELECT message_id FROM message_recipients WHERE agent_id = ?))
+    `).get(input.replyToId, project.id, sender.id);
+    if (!parent) {
+      return Err({
+        type: "MESSAGE_NOT_FOUND",
+        message: `Message not found: ${input.replyToId}`,
+        recoverable: true,
+      });
+    }
+    threadId = threadId ?? parent.thread_id;
+  }
+
   // Validate recipients exist
-  const allRecipients = [...input.to, ...(input.cc ?? [])];
-  const recipientAgents: { agent: { id: number; name: string }; kind: "to" | "cc" }[] = [];
+  const channels: { id: number; name: string }[] = [];
+  let recipientAgents: { agent: { id: number; name: string }; kind: MessageRecipient["kind"]; direct: boolean }[] = [];
+
+  // Each agent is recorded once; to wins over cc, cc over bcc.
+  // Direct means addressed by name rather than through a broadcast, role, channel or mention.
+  const addRecipient = (agent: { id: number; name: string }, kind: MessageRecipient["kind"], direct = false) => {
+    const existing = recipientAgents.find(r => r.agent.id === agent.id);
+    if (!existing) {
+      recipientAgents.push({ agent, kind, direct });
+    } else if (direct) {
+      existing.direct = true;
+    }
+  };
+
+  // Agents addressed by a name or a "role:name" alias
+  const resolveRecipients = (name: string): Result<{ agents: { id: number; name: string }[]; direct: boolean }, ApiError> => {
+    if (name.includes("@")) {
+      const recipientResult = resolveLinkedAgent(project, name);
+      return recipientResult.ok ? Ok({ agents: [recipientResult.value], direct: true }) : recipientResult;
+    }
+    if (!name.toLowerCase().startsWith("role:")) {
+      const recipientResult = getAgent(input.projectSlug, name);
+      return recipientResult.ok ? Ok({ agents: [recipientResult.value], direct: true }) : recipientResult;
+    }
+    const role = name.slice("role:".length);
+    const agents = getAgentsWithRole(project.id, role).filter(a => a.id !== sender.id);
+    if (agents.length === 0) {
+      return Err({
+        type: "ROLE_NOT_FOUND",
+        message: `No other agents with role: ${role}`,
+        recoverable: true,
+      });
+    }
+    return Ok({ agents, direct: false });
+  };
 
   for (const recipientName of input.to) {
     if (recipientName.toLowerCase() === "all") {
@@ -43,22 +262,65 @@ export function sendMessage(input: SendMessageInput): Result<Message, ApiError>
         "SELECT id, name FROM agents WHERE project_id = ? AND id != ?"
       ).all(project.id, sender.id);
       for (const agent of agents) {
-        recipientAgents.push({ agent, kind: "to" });
+        addRecipient(agent, "to");
+      }
+    } else if (recipientName.startsWith("#")) {
+      const channelResult = getChannel(project.id, recipientName);
+      if (!channelResult.ok) return channelResult;
+      const channel = channelResult.value;
+      if (!channels.some(c => c.id === channel.id)) channels.push(channel);
+      for (const member of getChannelMembers(channel.id)) {
+        if (member.id !== sender.id) addRecipient(member, "to");
       }
     } else {
-      const recipientResult = getAgent(input.projectSlug, recipientName);
+      const recipientResult = resolveRecipients(recipientName);
       if (!recipientResult.ok) return recipientResult;
-      recipientAgents.push({ agent: recipientResult.value, kind: "to" });
+      const { agents, direct } = recipientResult.value;
+      for (const agent of agents) addRecipient(agent, "to", direct);
     }
   }
 
   for (const ccName of input.cc ?? []) {
-    const recipientResult = getAgent(input.projectSlug, ccName);
+    const recipientResult = resolveRecipients(ccName);
+    if (!recipientResult.ok) return recipientResult;
+    const { agents, direct } = recipientResult.value;
+    for (const agent of agents) addRecipient(agent, "cc", direct);
+  }
+
+  for (const bccName of input.bcc ?? []) {
+    const recipientResult = resolveRecipients(bccName);
     if (!recipientResult.ok) return recipientResult;
-    recipientAgents.push({ agent: recipientResult.value, kind: "cc" });
+    const { agents, direct } = recipientResult.value;
+    for (const agent of agents) addRecipient(agent, "bcc", direct);
+  }
+
+  const mentioned = input.mentions === false
+    ? []
+    : findMentions(project.id, `${input.subject}\n${input.bodyMd}`).filter(a => a.id !== sender.id);
+  for (const agent of mentioned) {
+    addRecipient(agent, "cc");
   }
+  const mentionedIds = new Set(mentioned.map(a => a.id));
 
-  if (recipientAgents.length === 0) {
+  const policies = getContactPolicies(recipientAgents.map(r => r.agent.id));
+  // Agents in linked projects know the sender as Name@project-slug
+  const blocked = recipientAgents.filter(r =>
+    blocksSender(policies.get(r.agent.id)!, r.agent.name.includes("@") ? `${sender.name}@${project.slug}` : sender.name)
+  );
+  const blockedDirect = blocked.filter(r => r.direct);
+  if (blockedDirect.length > 0 || (blocked.length > 0 && blocked.length === recipientAgents.length && channels.length === 0)) {
+    const names = (blockedDirect.length > 0 ? blockedDirect : blocked).map(r => r.agent.name);
+    return Err({
+      type: "RECIPIENT_BLOCKED",
+      message: `Recipient does not accept messages from ${sender.name}: ${names.join(", ")}`,
+      recoverable: false,
+      data: { recipients: names },
+    });
+  }
+  recipientAgents = recipientAgents.filter(r => !blocked.includes(r));
+
+  // A channel post is kept in its history even with no other subscribers
+  if (recipientAgents.length === 0 && channels.length === 0) {
     return Err({
       type: "NO_RECIPIENTS",
       message: "No recipients specified or found",
@@ -66,30 +328,96 @@ export function sendMessage(input: SendMessageInput): Result<Message, ApiError>
     });
   }
 
+  if (input.ackWithinSeconds !== undefined && !(input.ackWithinSeconds > 0)) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "ack_within_seconds must be positive",
+      recoverable: true,
+    });
+  }
+  const deliverTs = input.deliverAt ? parseTimestamp(input.deliverAt) : null;
+  if (input.deliverAt && !deliverTs) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `Invalid deliver_at timestamp: ${input.deliverAt}`,
+      recoverable: true,
+    });
+  }
+
+  const expiresTs = input.expiresAt ? parseTimestamp(input.expiresAt) : null;
+  if (input.expiresAt && !expiresTs) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `Invalid expires_at timestamp: ${input.expiresAt}`,
+      recoverable: true,
+    });
+  }
+
+  const now = new Date();
+  const deliverTime = deliverTs && Date.parse(deliverTs) > now.getTime() ? new Date(deliverTs) : now;
+  const scheduled = deliverTime !== now;
+  if (expiresTs && Date.parse(expiresTs) <= deliverTime.getTime()) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "expires_at must be after the delivery time",
+      recoverable: true,
+    });
+  }
+
+  // Do-not-disturb holds back everything below urgent until it ends
+  const deferredUntil = new Map<number, string>();
+  if (input.importance !== "urgent") {
+    for (const recipient of recipientAgents) {
+      const dndUntil = policies.get(recipient.agent.id)!.dnd_until;
+      if (dndUntil && Date.parse(dndUntil) > deliverTime.getTime()) {
+        deferredUntil.set(recipient.agent.id, dndUntil);
+      }
+    }
+  }
+
+  // Ack deadlines run from delivery (or the end of a deferral), not from scheduling
+  const ackRequired = input.ackRequired || input.ackWithinSeconds !== undefined;
+  const ackDueTs = (agentId: number) => {
+    if (!input.ackWithinSeconds) return null;
+    const from = deferredUntil.has(agentId) ? Date.parse(deferredUntil.get(agentId)!) : deliverTime.getTime();
+    return new Date(from + input.ackWithinSeconds * 1000).toISOString();
+  };
+
   // Create message
   try {
-    const toAgents = recipientAgents
-      .filter(r => r.kind === "to")
-      .map(r => r.agent.name)
-      .join(",");
+    // Channel subscribers are listed as the channel, not by name
+    const channelMembers = new Set(channels.flatMap(c => getChannelMembers(c.id).map(m => m.id)));
+    const toAgents = [
+      ...channels.map(c => `#${c.name}`),
+      ...recipientAgents
+        .filter(r => r.kind === "to" && !channelMembers.has(r.agent.id))
+        .map(r => r.agent.name),
+    ].join(",");
     const ccAgents = recipientAgents
       .filter(r => r.kind === "cc")
       .map(r => r.agent.name)
       .join(",");
 
     db.run(`
-      INSERT INTO messages (project_id, sender_id, thread_id, subject, body_md, to_agents, cc_agents, importance, ack_required)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (project_id, sender_id, thread_id, subject, body_md, to_agents, cc_agents, importance, ack_required, reply_to_id, ack_within_seconds, deliver_ts, delivered_ts, expires_ts, kind, payload)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       project.id,
       sender.id,
-      input.threadId ?? null,
+      threadId,
       input.subject,
       input.bodyMd,
       toAgents,
       ccAgents,
       input.importance ?? "normal",
-      input.ackRequired ? 1 : 0,
+      ackRequired ? 1 : 0,
+      input.replyToId ?? null,
+      input.ackWithinSeconds ?? null,
+      scheduled ? deliverTime.toISOString() : null,
+      scheduled ? null : now.toISOString(),
+      expiresTs,
+      input.kind ?? null,
+      payload,
     ]);
 
     const messageId = db.query<{ id: number }, []>(
@@ -99,16 +427,35 @@ export function sendMessage(input: SendMessageInput): Result<Message, ApiError>
     // Create recipient records
     for (const recipient of recipientAgents) {
       db.run(`
-        INSERT INTO message_recipients (message_id, agent_id, kind)
-        VALUES (?, ?, ?)
-      `, [messageId, recipient.agent.id, recipient.kind]);
+        INSERT INTO message_recipients (message_id, agent_id, kind, ack_due_ts, mentioned, deferred_until)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        messageId,
+        recipient.agent.id,
+        recipient.kind,
+        ackDueTs(recipient.agent.id),
+        mentionedIds.has(recipient.agent.id) ? 1 : 0,
+        deferredUntil.get(recipient.agent.id) ?? null,
+      ]);
     }
 
-    const message = db.query<Message, [number]>(
+    for (const channel of channels) {
+      db.run("INSERT INTO channel_messages (channel_id, message_id) VALUES (?, ?)", [channel.id, messageId]);
+    }
+
+    const message = withPayload(db.query<Stored<Message>, [number]>(
       "SELECT * FROM messages WHERE id = ?"
-    ).get(messageId);
+    ).get(messageId)!);
+
+    if (!scheduled) {
+      publishNewMessage(
+        project.slug,
+        { ...message, sender_name: sender.name },
+        recipientAgents.filter(r => !deferredUntil.has(r.agent.id)).map(r => r.agent.name)
+      );
+    }
 
-    return Ok(message!);
+    return Ok(message);
   } catch (error) {
     return Err({
       type: "MESSAGE_SEND_FAILED",
@@ -118,19 +465,27 @@ export function sendMessage(input: SendMessageInput): Result<Message, ApiError>
   }
 }
 
-export interface InboxQuery {
+export interface InboxQuery extends PageQuery {
   projectSlug: string;
   agentName: string;
-  limit?: number;
   urgent?: boolean;
   unread?: boolean;
   since?: string;
+  thread?: string;
+  from?: string;
+  minImportance?: Importance;
+  sort?: "recent" | "importance";
+  mentions?: boolean;
+  archived?: boolean; // only archived messages (hidden by default)
+  starred?: boolean;
+  label?: string;
+  kind?: string;
 }
 
 /**
- * Fetch inbox for an agent.
+ * Fetch a page of an agent's inbox.
  */
-export function fetchInbox(query: InboxQuery): Result<InboxMessage[], ApiError> {
+export function fetchInbox(query: InboxQuery): Result<Page<InboxMessage>, ApiError> {
   const db = getDb();
 
   // Get project and agent
@@ -145,51 +500,225 @@ export function fetchInbox(query: InboxQuery): Result<InboxMessage[], ApiError>
   let sql = `
     SELECT 
       m.*,
+      mr.kind as recipient_kind,
+      mr.mentioned,
+      mr.archived_ts,
+      mr.starred,
+      mr.labels,
       mr.read_ts,
       mr.ack_ts,
-      s.name as sender_name
+      s.name as sender_name,
+      ${INBOX_TS_SQL} as inbox_ts,
+      CASE WHEN m.project_id != ? THEN (SELECT slug FROM projects WHERE id = m.project_id) END as origin_project
     FROM messages m
     JOIN message_recipients mr ON m.id = mr.message_id
     JOIN agents s ON m.sender_id = s.id
-    WHERE mr.agent_id = ? AND m.project_id = ?
+    WHERE mr.agent_id = ? AND ${DELIVERED_SQL} AND ${UNEXPIRED_SQL} AND ${UNDEFERRED_SQL}
   `;
-  const params: (number | string)[] = [agent.id, project.id];
+  const params: (number | string)[] = [project.id, agent.id];
 
-  if (query.urgent) {
-    sql += " AND m.importance IN ('high', 'urgent')";
+  // --urgent is shorthand for a minimum importance of high
+  const minImportance = query.minImportance ?? (query.urgent ? "high" : undefined);
+  if (minImportance) {
+    sql += ` AND ${IMPORTANCE_RANK_SQL} >= ?`;
+    params.push(IMPORTANCE_LEVELS.indexOf(minImportance));
   }
 
   if (query.unread) {
     sql += " AND mr.read_ts IS NULL";
   }
 
+  if (query.mentions) {
+    sql += " AND mr.mentioned = 1";
+  }
+
+  sql += query.archived ? " AND mr.archived_ts IS NOT NULL" : " AND mr.archived_ts IS NULL";
+
+  if (query.starred) {
+    sql += " AND mr.starred = 1";
+  }
+
+  if (query.kind) {
+    sql += " AND m.kind = ?";
+    params.push(query.kind);
+  }
+
+  if (query.label) {
+    sql += " AND instr(',' || mr.labels || ',', ?) > 0";
+    params.push(`,${query.label},`);
+  }
+
   if (query.since) {
-    sql += " AND m.created_ts > ?";
+    sql += ` AND ${INBOX_TS_SQL} > strftime('%Y-%m-%dT%H:%M:%fZ', ?)`;
     params.push(query.since);
   }
 
-  sql += " ORDER BY m.created_ts DESC";
+  if (query.thread) {
+    sql += " AND m.thread_id = ?";
+    params.push(query.thread);
+  }
+
+  if (query.from) {
+    sql += " AND s.name = ?";
+    params.push(query.from);
+  }
+
+  const byImportance = query.sort === "importance";
+  const columns = byImportance ? [IMPORTANCE_RANK_SQL, INBOX_TS_SQL, "m.id"] : [INBOX_TS_SQL, "m.id"];
+  const mode = byImportance ? "importance" : "time";
+  const clause = pageClause(query, columns, "DESC", mode);
+  if (!clause.ok) return clause;
+  sql += clause.value.where + clause.value.orderBy + clause.value.limit;
+  params.push(...clause.value.params);
+
+  const messages = db.query<Stored<InboxMessage>, (number | string)[]>(sql).all(...params).map(withPayload);
+
+  return Ok(toPage(messages, query, m => byImportance
+    ? [IMPORTANCE_LEVELS.indexOf(m.importance), m.inbox_ts, m.id]
+    : [m.inbox_ts, m.id], mode));
+}
+
+/**
+ * Long-poll the inbox: resolve as soon as a matching unread message exists,
+ * or with an empty list once the wait times out or the signal aborts.
+ */
+export function waitForInbox(
+  query: InboxQuery,
+  waitSeconds: number,
+  signal?: AbortSignal
+): Promise<Result<Page<InboxMessage>, ApiError>> {
+  const unreadQuery = { ...query, unread: true };
+  const empty: Page<InboxMessage> = { items: [], next_cursor: null, prev_cursor: null };
+
+  const initial = fetchInbox(unreadQuery);
+  if (!initial.ok || initial.value.items.length > 0) {
+    return Promise.resolve(initial);
+  }
+
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe = () => {};
+
+    const finish = (result: Result<Page<InboxMessage>, ApiError>) => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+    const onAbort = () => finish(Ok(empty));
+
+    unsubscribe = subscribe(event => {
+      if (event.type !== "message.new" || !event.audience?.includes(query.agentName)) return;
+      const result = fetchInbox(unreadQuery);
+      if (!result.ok || result.value.items.length > 0) {
+        finish(result);
+      }
+    });
+    timer = setTimeout(() => finish(Ok(empty)), waitSeconds * 1000);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * Deliver scheduled messages that are now due, publishing message.new
+ * to their recipients. Returns the number of messages delivered.
+ */
+export function deliverScheduledMessages(): number {
+  const db = getDb();
 
-  if (query.limit) {
-    sql += " LIMIT ?";
-    params.push(query.limit);
+  const due = db.query<Stored<MessageWithSender> & { project_slug: string }, []>(`
+    UPDATE messages
+    SET delivered_ts = ${NOW_ISO}
+    WHERE delivered_ts IS NULL AND deliver_ts IS NOT NULL AND deliver_ts <= ${NOW_ISO}
+    RETURNING *,
+      (SELECT name FROM agents WHERE id = messages.sender_id) as sender_name,
+      (SELECT slug FROM projects WHERE id = messages.project_id) as project_slug
+  `).all();
+
+  for (const { project_slug, ...message } of due) {
+    // Recipients in do-not-disturb hear about it from releaseDeferredMessages()
+    const recipients = db.query<{ address: string }, [number]>(`
+      SELECT ${ADDRESS_SQL} as address
+      FROM message_recipients mr
+      JOIN messages m ON mr.message_id = m.id
+      JOIN agents a ON mr.agent_id = a.id
+      WHERE mr.message_id = ? AND ${UNDEFERRED_SQL}
+    `).all(message.id);
+    publishNewMessage(project_slug, withPayload(message), recipients.map(r => r.address));
   }
 
-  const messages = db.query<InboxMessage, (number | string)[]>(sql).all(...params);
+  return due.length;
+}
+
+/**
+ * Release messages deferred by do-not-disturb whose deferral has ended,
+ * notifying their recipients. Returns the number of recipients released.
+ */
+export function releaseDeferredMessages(): number {
+  const db = getDb();
 
-  return Ok(messages);
+  const released = db.query<{ message_id: number; agent_id: number }, []>(`
+    UPDATE message_recipients
+    SET deferred_until = NULL
+    WHERE deferred_until IS NOT NULL AND deferred_until <= ${NOW_ISO}
+      AND message_id IN (SELECT id FROM messages WHERE delivered_ts IS NOT NULL)
+    RETURNING message_id, agent_id
+  `).all();
+
+  for (const { message_id, agent_id } of released) {
+    const message = db.query<Stored<MessageWithSender> & { project_slug: string; address: string }, [number, number]>(`
+      SELECT m.*, s.name as sender_name, p.slug as project_slug, ${ADDRESS_SQL} as address
+      FROM messages m
+      JOIN agents s ON m.sender_id = s.id
+      JOIN projects p ON m.project_id = p.id
+      JOIN agents a ON a.id = ?
+      WHERE m.id = ?
+    `).get(agent_id, message_id);
+    if (!message) continue;
+
+    const { project_slug, address, ...rest } = message;
+    publishNewMessage(project_slug, withPayload(rest), [address]);
+  }
+
+  return released.length;
 }
 
-export interface OutboxQuery {
+/**
+ * Get per-recipient read/ack state for a set of messages.
+ */
+export function getRecipientStatuses(messageIds: number[]): Map<number, RecipientStatus[]> {
+  const statuses = new Map<number, RecipientStatus[]>();
+  if (messageIds.length === 0) return statuses;
+
+  const db = getDb();
+  const placeholders = messageIds.map(() => "?").join(",");
+  const rows = db.query<RecipientStatus & { message_id: number }, number[]>(`
+    SELECT mr.message_id, ${ADDRESS_SQL} as agent_name, mr.kind, mr.read_ts, mr.ack_ts
+    FROM message_recipients mr
+    JOIN messages m ON mr.message_id = m.id
+    JOIN agents a ON mr.agent_id = a.id
+    WHERE mr.message_id IN (${placeholders})
+    ORDER BY agent_name
+  `).all(...messageIds);
+
+  for (const { message_id, ...status } of rows) {
+    const list = statuses.get(message_id) ?? [];
+    list.push(status);
+    statuses.set(message_id, list);
+  }
+
+  return statuses;
+}
+
+export interface OutboxQuery extends PageQuery {
   projectSlug: string;
   agentName: string;
-  limit?: number;
 }
 
 /**
- * Fetch outbox for an agent.
+ * Fetch a page of an agent's outbox, with per-recipient read/ack receipts.
  */
-export function fetchOutbox(query: OutboxQuery): Result<MessageWithSender[], ApiError> {
+export function fetchOutbox(query: OutboxQuery): Result<Page<MessageWithReceipts>, ApiError> {
   const db = getDb();
 
   // Get project and agent
@@ -206,34 +735,51 @@ export function fetchOutbox(query: OutboxQuery): Result<MessageWithSender[], Api
     FROM messages m
     JOIN agents a ON m.sender_id = a.id
     WHERE m.sender_id = ? AND m.project_id = ?
-    ORDER BY m.created_ts DESC
   `;
   const params: (number | string)[] = [agent.id, project.id];
 
-  if (query.limit) {
-    sql += " LIMIT ?";
-    params.push(query.limit);
-  }
+  const clause = pageClause(query, ["m.created_ts", "m.id"], "DESC");
+  if (!clause.ok) return clause;
+  sql += clause.value.where + clause.value.orderBy + clause.value.limit;
+  params.push(...clause.value.params);
 
-  const messages = db.query<MessageWithSender, (number | string)[]>(sql).all(...params);
+  const messages = db.query<Stored<MessageWithSender>, (number | string)[]>(sql).all(...params).map(withPayload);
+  const page = toPage(messages, query, m => [m.created_ts, m.id]);
+  const statuses = getRecipientStatuses(page.items.map(m => m.id));
 
-  return Ok(messages);
+  return Ok({
+    ...page,
+    items: page.items.map(m => {
+      const recipients = statuses.get(m.id) ?? [];
+      return { ...m, recipients, bcc_agents: bccNames(recipients) };
+    }),
+  });
 }
 
 /**
- * Get a single message by ID.
+ * Comma-separated BCC recipient names.
  */
-export function getMessage(messageId: number): Result<MessageWithSender, ApiError> {
+function bccNames(recipients: RecipientStatus[]): string {
+  return recipients.filter(r => r.kind === "bcc").map(r => r.agent_name).join(",");
+}
+
+/**
+ * Get a single message by ID, with per-recipient read/ack receipts.
+ * BCC recipients are only visible to the sender; a BCC recipient sees
+ * just their own entry. The viewer must already be authenticated.
+ */
+export function getMessage(messageId: number, viewer?: Agent): Result<MessageWithReceipts, ApiError> {
   const db = getDb();
 
-  const message = db.query<MessageWithSender, [number]>(`
-    SELECT m.*, a.name as sender_name
+  const row = db.query<Stored<MessageWithSender> & { project_slug: string }, [number]>(`
+    SELECT m.*, a.name as sender_name, p.slug as project_slug
     FROM messages m
     JOIN agents a ON m.sender_id = a.id
+    JOIN projects p ON m.project_id = p.id
     WHERE m.id = ?
   `).get(messageId);
 
-  if (!message) {
+  if (!row) {
     return Err({
       type: "MESSAGE_NOT_FOUND",
       message: `Message not found: ${messageId}`,
@@ -241,7 +787,30 @@ export function getMessage(messageId: number): Result<MessageWithSender, ApiErro
     });
   }
 
-  return Ok(message);
+  const message = withPayload(row);
+  const recipients = getRecipientStatuses([messageId]).get(messageId) ?? [];
+  if (viewer && viewer.id === message.sender_id) {
+    return Ok({ ...message, recipients, bcc_agents: bccNames(recipients) });
+  }
+
+  // Scheduled messages are invisible to everyone but the sender until due
+  if (message.deliver_ts && Date.parse(message.deliver_ts) > Date.now()) {
+    return Err({
+      type: "MESSAGE_NOT_FOUND",
+      message: `Message not found: ${messageId}`,
+      recoverable: true,
+    });
+  }
+
+  // Receipts name agents of linked projects as Name@project-slug
+  const viewerAddress = viewer && viewer.project_id !== message.project_id
+    ? `${viewer.name}@${getProjectById(viewer.project_id)?.slug}`
+    : viewer?.name;
+
+  return Ok({
+    ...message,
+    recipients: recipients.filter(r => r.kind !== "bcc" || r.agent_name === viewerAddress),
+  });
 }
 
 /**
@@ -277,6 +846,8 @@ export function markRead(projectSlug: string, agentName: string, messageId: numb
     WHERE message_id = ? AND agent_id = ?
   `, [now, messageId, agent.id]);
 
+  publishReceipt("message.read", agent, messageId, { read_ts: now });
+
   return Ok({ read: true, readAt: now });
 }
 
@@ -315,9 +886,271 @@ export function acknowledge(projectSlug: string, agentName: string, messageId: n
     "SELECT * FROM message_recipients WHERE message_id = ? AND agent_id = ?"
   ).get(messageId, agent.id);
 
+  publishReceipt("message.ack", agent, messageId, { ack_ts: updated!.ack_ts, read_ts: updated!.read_ts });
+
   return Ok({
     acknowledged: true,
     ackAt: updated!.ack_ts!,
     readAt: updated!.read_ts!,
   });
 }
+
+export interface InboxStateInput {
+  projectSlug: string;
+  agentName: string;
+  messageIds: number[];
+  archived?: boolean;
+  starred?: boolean;
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+const LABEL_PATTERN = /^[\w.:-]+$/;
+
+/**
+ * Change an agent's own inbox state (archive, star, labels) for several messages.
+ * Fails without changing anything if the agent is not a recipient of all of them.
+ */
+export function updateInboxState(input: InboxStateInput): Result<{ updated: number }, ApiError> {
+  const db = getDb();
+
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  if (input.messageIds.length === 0) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "message_ids required",
+      recoverable: true,
+    });
+  }
+
+  const badLabel = [...(input.addLabels ?? []), ...(input.removeLabels ?? [])].find(l => !LABEL_PATTERN.test(l));
+  if (badLabel !== undefined) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `Invalid label: "${badLabel}" (letters, digits, _ . : - only)`,
+      recoverable: true,
+    });
+  }
+
+  const rows: MessageRecipient[] = [];
+  const missing: number[] = [];
+  for (const messageId of input.messageIds) {
+    const row = db.query<MessageRecipient, [number, number]>(
+      "SELECT * FROM message_recipients WHERE message_id = ? AND agent_id = ?"
+    ).get(messageId, agent.id);
+    if (row) rows.push(row);
+    else missing.push(messageId);
+  }
+
+  if (missing.length > 0) {
+    return Err({
+      type: "NOT_RECIPIENT",
+      message: `Agent is not a recipient of message(s): ${missing.join(", ")}`,
+      recoverable: true,
+      data: { message_ids: missing },
+    });
+  }
+
+  const now = new Date().toISOString();
+  for (const row of rows) {
+    const labels = new Set(row.labels ? row.labels.split(",") : []);
+    for (const label of input.addLabels ?? []) labels.add(label);
+    for (const label of input.removeLabels ?? []) labels.delete(label);
+
+    const archivedTs = input.archived === undefined
+      ? row.archived_ts
+      : input.archived ? row.archived_ts ?? now : null;
+    const starred = input.starred === undefined ? row.starred : input.starred ? 1 : 0;
+
+    db.run(`
+      UPDATE message_recipients
+      SET archived_ts = ?, starred = ?, labels = ?
+      WHERE message_id = ? AND agent_id = ?
+    `, [archivedTs, starred, [...labels].sort().join(","), row.message_id, agent.id]);
+  }
+
+  return Ok({ updated: rows.length });
+}
+
+/**
+ * Publish a read/ack receipt to the message sender and the recipient
+ * (in both projects' streams when the message came from a linked project).
+ */
+function publishReceipt(
+  type: "message.read" | "message.ack",
+  agent: { name: string; project_id: number },
+  messageId: number,
+  data: Record<string, unknown>
+): void {
+  const project = getProjectById(agent.project_id);
+  const message = getMessage(messageId);
+  if (!project || !message.ok) return;
+
+  const origin = message.value.project_slug ?? project.slug;
+  if (origin === project.slug) {
+    publish(
+      type,
+      project.slug,
+      { message_id: messageId, agent: agent.name, ...data },
+      [message.value.sender_name, agent.name]
+    );
+    return;
+  }
+
+  publish(
+    type,
+    origin,
+    { message_id: messageId, agent: `${agent.name}@${project.slug}`, ...data },
+    [message.value.sender_name]
+  );
+  publish(type, project.slug, { message_id: messageId, agent: agent.name, ...data }, [agent.name]);
+}
+
+/**
+ * List outstanding acknowledgements owed by an agent and owed to it.
+ */
+export function fetchPendingAcks(projectSlug: string, agentName: string): Result<PendingAcks, ApiError> {
+  const db = getDb();
+
+  const agentResult = getAgent(projectSlug, agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const sql = `
+    SELECT
+      m.id as message_id,
+      m.subject,
+      m.thread_id,
+      s.name as sender_name,
+      r.name as agent_name,
+      m.importance,
+      m.created_ts,
+      mr.ack_due_ts,
+      mr.ack_reminders,
+      (mr.ack_due_ts IS NOT NULL AND mr.ack_due_ts <= ${NOW_ISO}) as overdue
+    FROM messages m
+    JOIN message_recipients mr ON m.id = mr.message_id
+    JOIN agents s ON m.sender_id = s.id
+    JOIN agents r ON mr.agent_id = r.id
+    WHERE m.ack_required = 1 AND mr.ack_ts IS NULL AND m.retracted_ts IS NULL
+  `;
+
+  const toPending = (row: PendingAck) => ({ ...row, overdue: !!row.overdue });
+
+  const owed = db.query<PendingAck, [number]>(
+    `${sql} AND mr.agent_id = ? AND ${UNDEFERRED_SQL} ORDER BY mr.ack_due_ts IS NULL, mr.ack_due_ts, m.id`
+  ).all(agent.id).map(toPending);
+
+  const awaiting = db.query<PendingAck, [number]>(
+    `${sql} AND m.sender_id = ? ORDER BY mr.ack_due_ts IS NULL, mr.ack_due_ts, m.id`
+  ).all(agent.id).map(toPending);
+
+  return Ok({ owed, awaiting });
+}
+
+const ESCALATION: Record<Importance, Importance> = {
+  low: "normal",
+  normal: "high",
+  high: "urgent",
+  urgent: "urgent",
+};
+
+export interface AckReminderFailure {
+  message_id: number;
+  error: ApiError;
+  retrying: boolean;
+}
+
+/**
+ * Re-notify recipients whose ack deadline has passed.
+ * Sends a reminder in the same thread from the original sender; once it is
+ * sent, the message importance is escalated one level and the next reminder
+ * is due after another ack window. A reminder that cannot be sent is reported
+ * in failures: a recoverable error changes nothing (it is retried on the next
+ * run), any other error ends the reminders for that message.
+ */
+export function remindOverdueAcks(): { sent: number; failures: AckReminderFailure[] } {
+  const db = getDb();
+
+  const overdue = db.query<{
+    message_id: number;
+    agent_id: number;
+    agent_name: string;
+    kind: MessageRecipient["kind"];
+  }, []>(`
+    SELECT mr.message_id, mr.agent_id, ${ADDRESS_SQL} as agent_name, mr.kind
+    FROM message_recipients mr
+    JOIN messages m ON mr.message_id = m.id
+    JOIN agents a ON mr.agent_id = a.id
+    WHERE mr.ack_ts IS NULL AND mr.ack_due_ts IS NOT NULL AND mr.ack_due_ts <= ${NOW_ISO}
+    ORDER BY mr.message_id
+  `).all();
+
+  // Group overdue recipients by message so each message gets one reminder
+  const byMessage = new Map<number, typeof overdue>();
+  for (const row of overdue) {
+    const list = byMessage.get(row.message_id) ?? [];
+    list.push(row);
+    byMessage.set(row.message_id, list);
+  }
+
+  let sent = 0;
+  const failures: AckReminderFailure[] = [];
+  for (const [messageId, recipients] of byMessage) {
+    const message = db.query<Stored<MessageWithSender> & { project_slug: string }, [number]>(`
+      SELECT m.*, a.name as sender_name, p.slug as project_slug
+      FROM messages m
+      JOIN agents a ON m.sender_id = a.id
+      JOIN projects p ON m.project_id = p.id
+      WHERE m.id = ?
+    `).get(messageId);
+    if (!message) continue;
+
+    const windowSeconds = message.ack_within_seconds ?? 15 * 60;
+    const nextDue = new Date(Date.now() + windowSeconds * 1000).toISOString();
+    const importance = ESCALATION[message.importance];
+
+    const result = sendMessage({
+      projectSlug: message.project_slug,
+      sender: message.sender_name,
+      // BCC recipients stay hidden from the others
+      to: recipients.filter(r => r.kind !== "bcc").map(r => r.agent_name),
+      bcc: recipients.filter(r => r.kind === "bcc").map(r => r.agent_name),
+      subject: `Reminder: ${message.subject}`,
+      bodyMd: `Acknowledgement of message #${messageId} was due within ${formatDuration(windowSeconds)} and is overdue.\n\nRun: am ack ${messageId}`,
+      threadId: message.thread_id ?? undefined,
+      importance,
+      replyToId: messageId,
+      mentions: false,
+    });
+    if (!result.ok) {
+      const retrying = result.error.recoverable === true;
+      failures.push({ message_id: messageId, error: result.error, retrying });
+      if (!retrying) {
+        // e.g. a recipient blocked the sender: retrying every run would never succeed
+        for (const r of recipients) {
+          db.run(
+            "UPDATE message_recipients SET ack_due_ts = NULL WHERE message_id = ? AND agent_id = ?",
+            [messageId, r.agent_id]
+          );
+        }
+      }
+      continue;
+    }
+
+    db.run("UPDATE messages SET importance = ? WHERE id = ?", [importance, messageId]);
+    for (const r of recipients) {
+      db.run(`
+        UPDATE message_recipients
+        SET ack_due_ts = ?, ack_reminders = ack_reminders + 1
+        WHERE message_id = ? AND agent_id = ?
+      `, [nextDue, messageId, r.agent_id]);
+    }
+    sent++;
+  }
+
+  return { sent, failures };
+}
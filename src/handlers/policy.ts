@@ -0,0 +1,139 @@
+import { getDb } from "../db.js";
+import type { ContactMode, ContactPolicy, Result, ApiError } from "../types.js";
+import { Ok, Err, CONTACT_MODES } from "../types.js";
+import { getAgent } from "./agent.js";
+
+export interface SetContactPolicyInput {
+  projectSlug: string;
+  agentName: string;
+  mode?: ContactMode;
+  allow?: string[]; // replaces the allow list
+  block?: string[]; // replaces the block list
+  dndUntil?: string | null; // null clears do-not-disturb
+}
+
+/**
+ * Policy used for agents that never set one.
+ */
+function defaultPolicy(agentId: number): ContactPolicy {
+  return { agent_id: agentId, mode: "open", allow: "", block: "", dnd_until: null, updated_ts: null };
+}
+
+/**
+ * Contact policies for a set of agents, keyed by agent id (agents without one get the default).
+ */
+export function getContactPolicies(agentIds: number[]): Map<number, ContactPolicy> {
+  const policies = new Map(agentIds.map(id => [id, defaultPolicy(id)]));
+  if (agentIds.length === 0) return policies;
+
+  const placeholders = agentIds.map(() => "?").join(",");
+  const rows = getDb().query<ContactPolicy, number[]>(
+    `SELECT * FROM contact_policies WHERE agent_id IN (${placeholders})`
+  ).all(...agentIds);
+
+  for (const row of rows) {
+    policies.set(row.agent_id, row);
+  }
+  return policies;
+}
+
+/**
+ * Whether a policy refuses messages from a sender.
+ */
+export function blocksSender(policy: ContactPolicy, senderName: string): boolean {
+  const listed = (list: string) => list.split(",").includes(senderName);
+  if (listed(policy.block)) return true;
+  return policy.mode === "allowlist" && !listed(policy.allow);
+}
+
+/**
+ * Get an agent's contact policy.
+ */
+export function getContactPolicy(projectSlug: string, agentName: string): Result<ContactPolicy, ApiError> {
+  const agentResult = getAgent(projectSlug, agentName);
+  if (!agentResult.ok) return agentResult;
+
+  return Ok(getContactPolicies([agentResult.value.id]).get(agentResult.value.id)!);
+}
+
+/**
+ * Resolve agent names for an allow/block list, returns them comma-joined.
+ * Agents in linked projects are given (and kept) as Name@project-slug.
+ */
+function resolveNames(projectSlug: string, names: string[]): Result<string, ApiError> {
+  const resolved: string[] = [];
+  for (const entry of names.map(n => n.trim()).filter(Boolean)) {
+    const [name, slug = projectSlug] = entry.split("@");
+    const agentResult = getAgent(slug, name);
+    if (!agentResult.ok) return agentResult;
+    const address = slug === projectSlug ? agentResult.value.name : `${agentResult.value.name}@${slug}`;
+    if (!resolved.includes(address)) resolved.push(address);
+  }
+  return Ok(resolved.join(","));
+}
+
+/**
+ * Update an agent's contact policy. Fields left out keep their current value.
+ */
+export function setContactPolicy(input: SetContactPolicyInput): Result<ContactPolicy, ApiError> {
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  if (input.mode !== undefined && !CONTACT_MODES.includes(input.mode)) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `mode must be one of: ${CONTACT_MODES.join(", ")}`,
+      recoverable: true,
+    });
+  }
+
+  let dndUntil: string | null | undefined = input.dndUntil;
+  if (dndUntil) {
+    const time = Date.parse(dndUntil);
+    if (Number.isNaN(time)) {
+      return Err({
+        type: "INVALID_INPUT",
+        message: `Invalid dnd_until timestamp: ${dndUntil}`,
+        recoverable: true,
+      });
+    }
+    dndUntil = new Date(time).toISOString();
+  }
+
+  const current = getContactPolicies([agent.id]).get(agent.id)!;
+
+  let allow = current.allow;
+  if (input.allow !== undefined) {
+    const allowResult = resolveNames(input.projectSlug, input.allow);
+    if (!allowResult.ok) return allowResult;
+    allow = allowResult.value;
+  }
+
+  let block = current.block;
+  if (input.block !== undefined) {
+    const blockResult = resolveNames(input.projectSlug, input.block);
+    if (!blockResult.ok) return blockResult;
+    block = blockResult.value;
+  }
+
+  const policy = getDb().query<ContactPolicy, [number, string, string, string, string | null]>(`
+    INSERT INTO contact_policies (agent_id, mode, allow, block, dnd_until)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(agent_id) DO UPDATE SET
+      mode = excluded.mode,
+      allow = excluded.allow,
+      block = excluded.block,
+      dnd_until = excluded.dnd_until,
+      updated_ts = datetime('now')
+    RETURNING *
+  `).get(
+    agent.id,
+    input.mode ?? current.mode,
+    allow,
+    block,
+    dndUntil === undefined ? current.dnd_until : dndUntil
+  )!;
+
+  return Ok(policy);
+}
@@ -1,5 +1,5 @@
 import { getDb } from "../db.js";
-import type { Project, Result, ApiError } from "../types.js";
+import type { Project, LinkedProject, Result, ApiError } from "../types.js";
 import { Ok, Err } from "../types.js";
 import { projectSlug } from "../utils/slug.js";
 
@@ -103,6 +103,105 @@ export function getProjectById(id: number): Project | null {
   ).get(id) ?? null;
 }
 
+/**
+ * Turn strict reservations on or off for a project.
+ */
+export function setStrictReservations(slugOrKey: string, strict: boolean): Result<Project, ApiError> {
+  const projectResult = getProject(slugOrKey);
+  if (!projectResult.ok) return projectResult;
+
+  const project = getDb().query<Project, [number, number]>(
+    "UPDATE projects SET strict_reservations = ? WHERE id = ? RETURNING *"
+  ).get(strict ? 1 : 0, projectResult.value.id)!;
+
+  return Ok(project);
+}
+
+/**
+ * Agree to link two projects so their agents can message each other (Name@project-slug).
+ * Only the calling project's side is recorded: the link takes effect once the
+ * other project links back, so neither can open the other up on its own.
+ */
+export function linkProjects(slugOrKey: string, otherSlugOrKey: string): Result<{ linked: boolean; project: string; other: string }, ApiError> {
+  const projectResult = getProject(slugOrKey);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const otherResult = getProject(otherSlugOrKey);
+  if (!otherResult.ok) return otherResult;
+  const other = otherResult.value;
+
+  if (project.id === other.id) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "Cannot link a project to itself",
+      recoverable: true,
+    });
+  }
+
+  getDb().run("INSERT OR IGNORE INTO project_links (project_id, linked_project_id) VALUES (?, ?)", [project.id, other.id]);
+
+  return Ok({ linked: projectsLinked(project.id, other.id), project: project.slug, other: other.slug });
+}
+
+/**
+ * Remove the link between two projects, from both sides.
+ * Also withdraws or declines a link that is not confirmed yet.
+ */
+export function unlinkProjects(slugOrKey: string, otherSlugOrKey: string): Result<{ unlinked: boolean }, ApiError> {
+  const projectResult = getProject(slugOrKey);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const otherResult = getProject(otherSlugOrKey);
+  if (!otherResult.ok) return otherResult;
+  const other = otherResult.value;
+
+  const result = getDb().run(
+    "DELETE FROM project_links WHERE (project_id = ? AND linked_project_id = ?) OR (project_id = ? AND linked_project_id = ?)",
+    [project.id, other.id, other.id, project.id]
+  );
+
+  return Ok({ unlinked: result.changes > 0 });
+}
+
+/**
+ * List the projects linked to a project, including links only one side agreed to.
+ */
+export function listLinkedProjects(slugOrKey: string): Result<LinkedProject[], ApiError> {
+  const projectResult = getProject(slugOrKey);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const linked = getDb().query<LinkedProject, [number, number]>(`
+    SELECT p.*,
+      CASE
+        WHEN mine.project_id IS NOT NULL AND theirs.project_id IS NOT NULL THEN 'linked'
+        WHEN mine.project_id IS NOT NULL THEN 'requested'
+        ELSE 'incoming'
+      END as status
+    FROM projects p
+    LEFT JOIN project_links mine ON mine.project_id = ? AND mine.linked_project_id = p.id
+    LEFT JOIN project_links theirs ON theirs.project_id = p.id AND theirs.linked_project_id = ?
+    WHERE mine.project_id IS NOT NULL OR theirs.project_id IS NOT NULL
+    ORDER BY p.slug
+  `).all(project.id, project.id);
+
+  return Ok(linked);
+}
+
+/**
+ * Whether two projects are linked (both have agreed).
+ */
+export function projectsLinked(projectId: number, otherProjectId: number): boolean {
+  return !!getDb().query<{ one: number }, [number, number]>(`
+    SELECT 1 as one
+    FROM project_links l
+    JOIN project_links back ON back.project_id = l.linked_project_id AND back.linked_project_id = l.project_id
+    WHERE l.project_id = ? AND l.linked_project_id = ?
+  `).get(projectId, otherProjectId);
+}
+
 /**
  * Delete a project and all related data.
  */
@@ -1,8 +1,11 @@
-import { getDb } from "../db.js";
-import type { FileReservation, ReservationWithAgent, ReservationConflict, ReservationResult, Result, ApiError } from "../types.js";
+import { getDb, NOW_ISO } from "../db.js";
+import { publish, subscribe } from "../events.js";
+import type { FileReservation, ReservationStatus, ReservationWithAgent, ReservationConflict, ReservationResult, PatternOverlap, Page, PageQuery, Result, ApiError } from "../types.js";
 import { Ok, Err } from "../types.js";
 import { getProject } from "./project.js";
 import { getAgent } from "./agent.js";
+import { pageClause, toPage } from "../utils/cursor.js";
+import { globsOverlap, globCovers, validateGlob, filesCoveredByAll } from "../utils/glob.js";
 
 export interface CreateReservationInput {
   projectSlug: string;
@@ -11,26 +14,104 @@ export interface CreateReservationInput {
   ttlSeconds?: number;
   exclusive?: boolean;
   reason?: string;
+  strict?: boolean; // refuse instead of reporting conflicts (also on when the project is strict)
+  waitSeconds?: number; // queue behind conflicts for up to this long instead
+}
+
+const DEFAULT_TTL_SECONDS = 3600; // 1 hour
+
+/**
+ * Durations must be a positive number of seconds.
+ */
+function validateSeconds(field: string, seconds: number): Result<true, ApiError> {
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: `${field} must be a positive integer, got ${seconds}`,
+      recoverable: true,
+    });
+  }
+  return Ok(true);
 }
 
 /**
- * Check if two path patterns might overlap.
- * Simple heuristic: check prefix match or glob overlap.
+ * Other agents' unexpired reservations in a given status that conflict with a pattern.
+ * Reader/writer semantics: shared reservations only conflict with exclusive ones,
+ * exclusive reservations conflict with any other agent's reservation.
+ */
+function findConflicts(
+  projectId: number,
+  agentId: number,
+  pattern: string,
+  exclusive: boolean,
+  status: ReservationStatus
+): ReservationConflict[] {
+  const candidates = getDb().query<ReservationWithAgent, [number, string, number, number]>(`
+    SELECT fr.*, a.name as agent_name
+    FROM file_reservations fr
+    JOIN agents a ON fr.agent_id = a.id
+    WHERE fr.project_id = ? 
+      AND fr.status = ?
+      AND fr.released_ts IS NULL 
+      AND fr.expires_ts > ${NOW_ISO}
+      AND (fr.exclusive = 1 OR ? = 1)
+      AND fr.agent_id != ?
+    ORDER BY fr.id
+  `).all(projectId, status, exclusive ? 1 : 0, agentId);
+
+  return candidates
+    .filter(res => patternsOverlap(pattern, res.path_pattern))
+    .map(res => ({
+      id: res.id,
+      agent_name: res.agent_name,
+      path_pattern: res.path_pattern,
+      exclusive: res.exclusive,
+      status: res.status,
+      side: res.exclusive ? "holder" : "requester",
+      expires_ts: res.expires_ts,
+      reason: res.reason,
+    }));
+}
+
+export interface OverlapQuery {
+  a: string;
+  b: string;
+  projectSlug?: string;
+  files?: boolean; // also list files in the project tree covered by both
+}
+
+/**
+ * Check if two path patterns can cover a common path.
+ * Patterns that fail to parse are treated as overlapping.
  */
 function patternsOverlap(pattern1: string, pattern2: string): boolean {
-  // Normalize patterns
-  const p1 = pattern1.replace(/\*\*\//g, "").replace(/\*/g, "");
-  const p2 = pattern2.replace(/\*\*\//g, "").replace(/\*/g, "");
+  const result = globsOverlap(pattern1, pattern2);
+  return !result.ok || result.value;
+}
 
-  // Check if one is prefix of other
-  if (p1.startsWith(p2) || p2.startsWith(p1)) return true;
+/**
+ * Explain whether two patterns overlap, optionally against the project's actual files.
+ */
+export function checkOverlap(query: OverlapQuery): Result<PatternOverlap, ApiError> {
+  const overlap = globsOverlap(query.a, query.b);
+  if (!overlap.ok) return overlap;
+
+  if (!query.files) {
+    return Ok({ a: query.a, b: query.b, overlap: overlap.value });
+  }
 
-  // Check directory overlap
-  const dir1 = p1.split("/").slice(0, -1).join("/");
-  const dir2 = p2.split("/").slice(0, -1).join("/");
-  if (dir1 && dir2 && (dir1.startsWith(dir2) || dir2.startsWith(dir1))) return true;
+  if (!query.projectSlug) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "project required to check files",
+      recoverable: true,
+    });
+  }
+  const projectResult = getProject(query.projectSlug);
+  if (!projectResult.ok) return projectResult;
 
-  return pattern1 === pattern2;
+  const files = overlap.value ? filesCoveredByAll(projectResult.value.human_key, [query.a, query.b]) : [];
+  return Ok({ a: query.a, b: query.b, overlap: overlap.value, files });
 }
 
 /**
@@ -48,41 +129,62 @@ export function createReservation(input: CreateReservationInput): Result<Reserva
   if (!agentResult.ok) return agentResult;
   const agent = agentResult.value;
 
-  const ttlSeconds = input.ttlSeconds ?? 3600; // Default 1 hour
-  const exclusive = input.exclusive ?? true;
+  const patternResult = validateGlob(input.pathPattern);
+  if (!patternResult.ok) return patternResult;
 
-  // Check for conflicts with active exclusive reservations
-  const activeReservations = db.query<ReservationWithAgent, [number, number]>(`
-    SELECT fr.*, a.name as agent_name
-    FROM file_reservations fr
-    JOIN agents a ON fr.agent_id = a.id
-    WHERE fr.project_id = ? 
-      AND fr.released_ts IS NULL 
-      AND fr.expires_ts > datetime('now')
-      AND fr.exclusive = 1
-      AND fr.agent_id != ?
-  `).all(project.id, agent.id);
-  const conflicts: ReservationConflict[] = [];
-  for (const res of activeReservations) {
-    if (res.agent_id !== agent.id && patternsOverlap(input.pathPattern, res.path_pattern)) {
-      conflicts.push({
-        id: res.id,
-        agent_name: res.agent_name,
-        path_pattern: res.path_pattern,
-        expires_ts: res.expires_ts,
-        reason: res.reason,
+  const ttlSeconds = input.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const ttlResult = validateSeconds("ttl_seconds", ttlSeconds);
+  if (!ttlResult.ok) return ttlResult;
+  if (input.waitSeconds !== undefined) {
+    const waitResult = validateSeconds("wait_seconds", input.waitSeconds);
+    if (!waitResult.ok) return waitResult;
+  }
+  const exclusive = input.exclusive ?? true;
+  const strict = input.strict || project.strict_reservations === 1;
+
+  // Earlier queued requests count as conflicts too, so nothing jumps the queue
+  const conflicts = [
+    ...findConflicts(project.id, agent.id, input.pathPattern, exclusive, "granted"),
+    ...findConflicts(project.id, agent.id, input.pathPattern, exclusive, "waiting"),
+  ];
+
+  // Waiting requests queue behind the holders and any earlier queued request they conflict with
+  if (input.waitSeconds !== undefined) {
+    if (conflicts.length > 0) {
+      const waitUntil = new Date(Date.now() + input.waitSeconds * 1000).toISOString();
+      const waiting = db.query<FileReservation, [number, number, string, number, string, string, number]>(`
+        INSERT INTO file_reservations (project_id, agent_id, path_pattern, exclusive, reason, expires_ts, status, ttl_seconds)
+        VALUES (?, ?, ?, ?, ?, ?, 'waiting', ?)
+        RETURNING *
+      `).get(project.id, agent.id, input.pathPattern, exclusive ? 1 : 0, input.reason ?? "", waitUntil, ttlSeconds)!;
+
+      publish("reservation.waiting", project.slug, {
+        reservation: { ...waiting, agent_name: agent.name },
+        conflicts,
       });
+
+      return Ok({ granted: [], conflicts, waiting });
     }
   }
 
-  // Create the reservation anyway (advisory), but report conflicts
+  // Strict mode refuses the reservation outright
+  if (strict && conflicts.length > 0) {
+    return Err({
+      type: "RESERVATION_CONFLICT",
+      message: `${input.pathPattern} overlaps ${conflicts.map(c => `${c.agent_name}: ${c.path_pattern}`).join(", ")}`,
+      recoverable: true,
+      data: { conflicts },
+    });
+  }
+
+  // Otherwise create the reservation anyway (advisory), but report conflicts
   try {
     const expiresTs = new Date(Date.now() + ttlSeconds * 1000).toISOString();
 
     db.run(`
-      INSERT INTO file_reservations (project_id, agent_id, path_pattern, exclusive, reason, expires_ts)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, [project.id, agent.id, input.pathPattern, exclusive ? 1 : 0, input.reason ?? "", expiresTs]);
+      INSERT INTO file_reservations (project_id, agent_id, path_pattern, exclusive, reason, expires_ts, ttl_seconds)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [project.id, agent.id, input.pathPattern, exclusive ? 1 : 0, input.reason ?? "", expiresTs, ttlSeconds]);
 
     const reservationId = db.query<{ id: number }, []>(
       "SELECT last_insert_rowid() as id"
@@ -92,6 +194,11 @@ export function createReservation(input: CreateReservationInput): Result<Reserva
       "SELECT * FROM file_reservations WHERE id = ?"
     ).get(reservationId);
 
+    publish("reservation.granted", project.slug, {
+      reservation: { ...reservation!, agent_name: agent.name },
+      conflicts,
+    });
+
     return Ok({
       granted: [reservation!],
       conflicts,
@@ -105,15 +212,63 @@ export function createReservation(input: CreateReservationInput): Result<Reserva
   }
 }
 
-export interface ReleaseReservationInput {
+/**
+ * Which of an agent's held reservations to act on.
+ */
+export interface ReservationSelector {
   projectSlug: string;
   agentName: string;
-  pattern?: string;
+  id?: number;
+  pattern?: string; // glob over held patterns (an exact pattern also matches itself)
   all?: boolean;
 }
 
+export type ReleaseReservationInput = ReservationSelector;
+
+export interface RenewReservationInput extends ReservationSelector {
+  ttlSeconds?: number; // added to expires_ts (default 1 hour)
+}
+
+/**
+ * Ids of the agent's unreleased reservations (granted or waiting) picked by a selector.
+ * With activeOnly, only granted reservations that have not expired are picked.
+ */
+function selectHeld(projectId: number, agentId: number, selector: ReservationSelector, activeOnly: boolean): Result<number[], ApiError> {
+  if (selector.id === undefined && !selector.pattern && !selector.all) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "Must specify id, pattern or all=true",
+      recoverable: true,
+    });
+  }
+
+  const held = getDb().query<FileReservation, [number, number]>(`
+    SELECT * FROM file_reservations
+    WHERE project_id = ? AND agent_id = ? AND released_ts IS NULL
+      ${activeOnly ? `AND status = 'granted' AND expires_ts > ${NOW_ISO}` : ""}
+  `).all(projectId, agentId);
+
+  if (selector.id !== undefined) {
+    if (!held.some(r => r.id === selector.id)) {
+      return Err({
+        type: "RESERVATION_NOT_FOUND",
+        message: `No ${activeOnly ? "active" : "unreleased"} reservation #${selector.id} held by ${selector.agentName}`,
+        recoverable: true,
+      });
+    }
+    return Ok([selector.id]);
+  }
+
+  if (selector.all) return Ok(held.map(r => r.id));
+
+  const pattern = selector.pattern!;
+  const patternResult = validateGlob(pattern);
+  if (!patternResult.ok) return patternResult;
+  return Ok(held.filter(r => r.path_pattern === pattern || globCovers(pattern, r.path_pattern)).map(r => r.id));
+}
+
 /**
- * Release file reservations.
+ * Release file reservations by id, by glob over held patterns, or all.
  */
 export function releaseReservations(input: ReleaseReservationInput): Result<{ released: number; releasedAt: string }, ApiError> {
   const db = getDb();
@@ -126,44 +281,218 @@ export function releaseReservations(input: ReleaseReservationInput): Result<{ re
   if (!agentResult.ok) return agentResult;
   const agent = agentResult.value;
 
+  const idsResult = selectHeld(project.id, agent.id, input, false);
+  if (!idsResult.ok) return idsResult;
+  const ids = idsResult.value;
+
   const now = new Date().toISOString();
 
-  let result;
-  if (input.all) {
-    result = db.run(`
-      UPDATE file_reservations 
-      SET released_ts = ?
-      WHERE project_id = ? AND agent_id = ? AND released_ts IS NULL
-    `, [now, project.id, agent.id]);
-  } else if (input.pattern) {
-    result = db.run(`
-      UPDATE file_reservations 
-      SET released_ts = ?
-      WHERE project_id = ? AND agent_id = ? AND path_pattern = ? AND released_ts IS NULL
-    `, [now, project.id, agent.id, input.pattern]);
-  } else {
-    return Err({
-      type: "INVALID_INPUT",
-      message: "Must specify pattern or all=true",
-      recoverable: true,
+  const released = ids.length === 0 ? [] : db.query<FileReservation, [string, ...number[]]>(`
+    UPDATE file_reservations 
+    SET released_ts = ?
+    WHERE id IN (${ids.map(() => "?").join(",")})
+    RETURNING *
+  `).all(now, ...ids);
+
+  for (const reservation of released) {
+    publish("reservation.released", project.slug, {
+      reservation: { ...reservation, agent_name: agent.name },
     });
   }
+  if (released.length > 0) grantWaiting(project.id);
 
   return Ok({
-    released: result.changes,
+    released: released.length,
     releasedAt: now,
   });
 }
 
-export interface ListReservationsQuery {
+/**
+ * Extend active reservations by a TTL, picked by id, by glob over held patterns, or all.
+ */
+export function renewReservations(input: RenewReservationInput): Result<{ renewed: FileReservation[] }, ApiError> {
+  const db = getDb();
+
+  const projectResult = getProject(input.projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const agentResult = getAgent(input.projectSlug, input.agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const ttlSeconds = input.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const ttlResult = validateSeconds("ttl_seconds", ttlSeconds);
+  if (!ttlResult.ok) return ttlResult;
+
+  const idsResult = selectHeld(project.id, agent.id, input, true);
+  if (!idsResult.ok) return idsResult;
+  const ids = idsResult.value;
+
+  const renewed = ids.length === 0 ? [] : db.query<FileReservation, number[]>(`
+    UPDATE file_reservations
+    SET expires_ts = strftime('%Y-%m-%dT%H:%M:%fZ', expires_ts, '+${ttlSeconds} seconds')
+    WHERE id IN (${ids.map(() => "?").join(",")})
+    RETURNING *
+  `).all(...ids);
+
+  for (const reservation of renewed) {
+    publish("reservation.renewed", project.slug, {
+      reservation: { ...reservation, agent_name: agent.name },
+    });
+  }
+
+  return Ok({ renewed });
+}
+
+/**
+ * Mark expired reservations as released and publish expiration events.
+ */
+export function expireReservations(): number {
+  const db = getDb();
+
+  const expired = db.query<ReservationWithAgent & { project_slug: string }, []>(`
+    SELECT fr.*, a.name as agent_name, p.slug as project_slug
+    FROM file_reservations fr
+    JOIN agents a ON fr.agent_id = a.id
+    JOIN projects p ON fr.project_id = p.id
+    WHERE fr.released_ts IS NULL AND fr.expires_ts <= ${NOW_ISO}
+  `).all();
+
+  for (const reservation of expired) {
+    db.run(
+      "UPDATE file_reservations SET released_ts = expires_ts WHERE id = ?",
+      [reservation.id]
+    );
+    const { project_slug, ...rest } = reservation;
+    publish("reservation.expired", project_slug, { reservation: rest });
+  }
+
+  for (const projectId of new Set(expired.map(r => r.project_id))) {
+    grantWaiting(projectId);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Grant queued reservations that no longer conflict, oldest first. A queued
+ * request also stays behind earlier queued requests it conflicts with.
+ * The grant is published as reservation.granted. Returns the granted reservations.
+ */
+export function grantWaiting(projectId: number): FileReservation[] {
+  const db = getDb();
+
+  const waiting = db.query<ReservationWithAgent & { project_slug: string }, [number]>(`
+    SELECT fr.*, a.name as agent_name, p.slug as project_slug
+    FROM file_reservations fr
+    JOIN agents a ON fr.agent_id = a.id
+    JOIN projects p ON fr.project_id = p.id
+    WHERE fr.project_id = ? AND fr.status = 'waiting'
+      AND fr.released_ts IS NULL AND fr.expires_ts > ${NOW_ISO}
+    ORDER BY fr.id
+  `).all(projectId);
+
+  const granted: FileReservation[] = [];
+  const ahead: ReservationWithAgent[] = [];
+  for (const { project_slug, ...res } of waiting) {
+    const blocked =
+      findConflicts(projectId, res.agent_id, res.path_pattern, res.exclusive === 1, "granted").length > 0 ||
+      ahead.some(other =>
+        other.agent_id !== res.agent_id &&
+        (other.exclusive === 1 || res.exclusive === 1) &&
+        patternsOverlap(res.path_pattern, other.path_pattern)
+      );
+    if (blocked) {
+      ahead.push(res);
+      continue;
+    }
+
+    const reservation = db.query<FileReservation, [number, number]>(`
+      UPDATE file_reservations
+      SET status = 'granted', expires_ts = strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+' || ? || ' seconds')
+      WHERE id = ?
+      RETURNING *
+    `).get(res.ttl_seconds ?? DEFAULT_TTL_SECONDS, res.id)!;
+    granted.push(reservation);
+
+    publish("reservation.granted", project_slug, {
+      reservation: { ...reservation, agent_name: res.agent_name },
+      conflicts: [],
+      queued: true,
+    });
+  }
+
+  return granted;
+}
+
+/**
+ * Get a reservation by id.
+ */
+export function getReservation(id: number): Result<ReservationWithAgent, ApiError> {
+  const reservation = getDb().query<ReservationWithAgent, [number]>(`
+    SELECT fr.*, a.name as agent_name
+    FROM file_reservations fr
+    JOIN agents a ON fr.agent_id = a.id
+    WHERE fr.id = ?
+  `).get(id);
+
+  if (!reservation) {
+    return Err({
+      type: "RESERVATION_NOT_FOUND",
+      message: `Reservation not found: ${id}`,
+      recoverable: true,
+    });
+  }
+  return Ok(reservation);
+}
+
+/**
+ * Wait up to waitSeconds for a queued reservation to be granted (or dropped).
+ * Resolves with the reservation's current state.
+ */
+export function waitForReservation(
+  id: number,
+  waitSeconds: number,
+  signal?: AbortSignal
+): Promise<Result<ReservationWithAgent, ApiError>> {
+  const initial = getReservation(id);
+  if (!initial.ok || initial.value.status !== "waiting" || initial.value.released_ts) {
+    return Promise.resolve(initial);
+  }
+
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe = () => {};
+
+    const finish = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener("abort", finish);
+      resolve(getReservation(id));
+    };
+
+    unsubscribe = subscribe(event => {
+      if (!event.type.startsWith("reservation.")) return;
+      const reservation = event.data.reservation as FileReservation | undefined;
+      if (reservation?.id === id && event.type !== "reservation.waiting") finish();
+    });
+    timer = setTimeout(finish, waitSeconds * 1000);
+    signal?.addEventListener("abort", finish);
+  });
+}
+
+export interface ListReservationsQuery extends PageQuery {
   projectSlug: string;
   active?: boolean;
+  agentName?: string;
 }
 
 /**
- * List reservations for a project.
+ * List a page of reservations for a project, newest first.
+ * With agentName, only that agent's reservations.
  */
-export function listReservations(query: ListReservationsQuery): Result<ReservationWithAgent[], ApiError> {
+export function listReservations(query: ListReservationsQuery): Result<Page<ReservationWithAgent>, ApiError> {
   const db = getDb();
 
   const projectResult = getProject(query.projectSlug);
@@ -179,14 +508,22 @@ export function listReservations(query: ListReservationsQuery): Result<Reservati
   const params: (number | string)[] = [project.id];
 
   if (query.active) {
-    sql += " AND fr.released_ts IS NULL AND fr.expires_ts > datetime('now')";
+    sql += ` AND fr.status = 'granted' AND fr.released_ts IS NULL AND fr.expires_ts > ${NOW_ISO}`;
+  }
+
+  if (query.agentName) {
+    sql += " AND a.name = ?";
+    params.push(query.agentName);
   }
 
-  sql += " ORDER BY fr.created_ts DESC";
+  const clause = pageClause(query, ["fr.created_ts", "fr.id"], "DESC");
+  if (!clause.ok) return clause;
+  sql += clause.value.where + clause.value.orderBy + clause.value.limit;
+  params.push(...clause.value.params);
 
   const reservations = db.query<ReservationWithAgent, (number | string)[]>(sql).all(...params);
 
-  return Ok(reservations);
+  return Ok(toPage(reservations, query, r => [r.created_ts, r.id]));
 }
 
 /**
@@ -206,7 +543,7 @@ export function getAgentReservations(projectSlug: string, agentName: string): Re
   const reservations = db.query<FileReservation, [number, number]>(`
     SELECT * FROM file_reservations 
     WHERE project_id = ? AND agent_id = ? 
-      AND released_ts IS NULL AND expires_ts > datetime('now')
+      AND status = 'granted' AND released_ts IS NULL AND expires_ts > ${NOW_ISO}
     ORDER BY created_ts DESC
   `).all(project.id, agent.id);
 
@@ -0,0 +1,233 @@
+import { getDb } from "../db.js";
+import type { Message, MessageRevision, Stored, Project, Agent, Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+import { getProject } from "./project.js";
+import { getAgent } from "./agent.js";
+import { sendMessage, getRecipientStatuses, publishToAddresses, withPayload } from "./message.js";
+
+export interface EditMessageInput {
+  projectSlug: string;
+  agentName: string;
+  messageId: number;
+  subject?: string;
+  bodyMd?: string;
+  reason?: string;
+}
+
+export interface RetractMessageInput {
+  projectSlug: string;
+  agentName: string;
+  messageId: number;
+  reason?: string;
+}
+
+/**
+ * Load a message that the given agent sent and may still change.
+ */
+function getOwnMessage(
+  projectSlug: string,
+  agentName: string,
+  messageId: number
+): Result<{ project: Project; sender: Agent; message: Stored<Message> }, ApiError> {
+  const db = getDb();
+
+  const projectResult = getProject(projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const senderResult = getAgent(projectSlug, agentName);
+  if (!senderResult.ok) return senderResult;
+  const sender = senderResult.value;
+
+  const message = db.query<Stored<Message>, [number, number]>(
+    "SELECT * FROM messages WHERE id = ? AND project_id = ?"
+  ).get(messageId, project.id);
+
+  if (!message) {
+    return Err({
+      type: "MESSAGE_NOT_FOUND",
+      message: `Message not found: ${messageId}`,
+      recoverable: true,
+    });
+  }
+
+  if (message.sender_id !== sender.id) {
+    return Err({
+      type: "NOT_SENDER",
+      message: "Only the sender can change this message",
+      recoverable: false,
+    });
+  }
+
+  if (message.retracted_ts) {
+    return Err({
+      type: "MESSAGE_RETRACTED",
+      message: `Message ${messageId} was already retracted`,
+      recoverable: false,
+    });
+  }
+
+  return Ok({ project, sender, message });
+}
+
+/**
+ * Save the current content of a message as a revision.
+ */
+function saveRevision(message: Stored<Message>, action: MessageRevision["action"], reason?: string): void {
+  getDb().run(`
+    INSERT INTO message_revisions (message_id, action, subject, body_md, payload, reason)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [message.id, action, message.subject, message.body_md, message.payload, reason ?? ""]);
+}
+
+/**
+ * Tell recipients about the change: an event to everyone on the message,
+ * and a notice in the same thread to those who already read it.
+ */
+function notifyRecipients(
+  project: Project,
+  sender: Agent,
+  before: Stored<Message>,
+  after: Message,
+  action: MessageRevision["action"],
+  reason?: string
+): void {
+  const recipients = getRecipientStatuses([before.id]).get(before.id) ?? [];
+
+  // Recipients in linked projects get the event in their own project's stream
+  publishToAddresses(
+    action === "edit" ? "message.edited" : "message.retracted",
+    project.slug,
+    { message: { ...after, sender_name: sender.name }, reason: reason ?? "" },
+    [sender.name, ...recipients.map(r => r.agent_name)]
+  );
+
+  const readers = recipients.filter(r => r.read_ts);
+  if (readers.length === 0) return;
+
+  const verb = action === "edit" ? "edited" : "retracted";
+  const lines = [`Message #${before.id} ("${before.subject}") was ${verb} after you read it.`];
+  if (reason) lines.push("", `Reason: ${reason}`);
+  lines.push("", action === "edit" ? `Run: am read ${before.id}` : "Disregard its instructions.");
+
+  sendMessage({
+    projectSlug: project.slug,
+    sender: sender.name,
+    // BCC readers stay hidden from the others
+    to: readers.filter(r => r.kind !== "bcc").map(r => r.agent_name),
+    bcc: readers.filter(r => r.kind === "bcc").map(r => r.agent_name),
+    subject: `${action === "edit" ? "Edited" : "Retracted"}: ${after.subject}`,
+    bodyMd: lines.join("\n"),
+    threadId: before.thread_id ?? undefined,
+    importance: before.importance,
+    replyToId: before.id,
+    mentions: false,
+  });
+}
+
+/**
+ * Edit a sent message. The previous subject/body is kept as a revision.
+ */
+export function editMessage(input: EditMessageInput): Result<Message, ApiError> {
+  const db = getDb();
+
+  if (input.subject === undefined && input.bodyMd === undefined) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "subject or body_md required",
+      recoverable: true,
+    });
+  }
+
+  const ownResult = getOwnMessage(input.projectSlug, input.agentName, input.messageId);
+  if (!ownResult.ok) return ownResult;
+  const { project, sender, message } = ownResult.value;
+
+  saveRevision(message, "edit", input.reason);
+
+  // The FTS update trigger re-indexes the new content
+  const updated = withPayload(db.query<Stored<Message>, [string, string, string, number]>(`
+    UPDATE messages
+    SET subject = ?, body_md = ?, edited_ts = ?
+    WHERE id = ?
+    RETURNING *
+  `).get(
+    input.subject ?? message.subject,
+    input.bodyMd ?? message.body_md,
+    new Date().toISOString(),
+    message.id
+  )!);
+
+  notifyRecipients(project, sender, message, updated, "edit", input.reason);
+
+  return Ok(updated);
+}
+
+/**
+ * Retract a sent message. The body and payload are cleared (and dropped from search),
+ * outstanding ack deadlines are cancelled, and the content is kept as a revision.
+ */
+export function retractMessage(input: RetractMessageInput): Result<Message, ApiError> {
+  const db = getDb();
+
+  const ownResult = getOwnMessage(input.projectSlug, input.agentName, input.messageId);
+  if (!ownResult.ok) return ownResult;
+  const { project, sender, message } = ownResult.value;
+
+  saveRevision(message, "retract", input.reason);
+
+  const updated = withPayload(db.query<Stored<Message>, [string, number]>(`
+    UPDATE messages
+    SET body_md = '', payload = NULL, retracted_ts = ?
+    WHERE id = ?
+    RETURNING *
+  `).get(new Date().toISOString(), message.id)!);
+
+  db.run(
+    "UPDATE message_recipients SET ack_due_ts = NULL WHERE message_id = ? AND ack_ts IS NULL",
+    [message.id]
+  );
+
+  notifyRecipients(project, sender, message, updated, "retract", input.reason);
+
+  return Ok(updated);
+}
+
+/**
+ * List prior revisions of a message, oldest first.
+ * Only the sender and the message's to/cc recipients may see them: they keep retracted content.
+ */
+export function listRevisions(projectSlug: string, agentName: string, messageId: number): Result<MessageRevision[], ApiError> {
+  const agentResult = getAgent(projectSlug, agentName);
+  if (!agentResult.ok) return agentResult;
+  const agent = agentResult.value;
+
+  const message = getDb().query<{ sender_id: number; kind: string | null }, [number, number]>(`
+    SELECT m.sender_id, mr.kind
+    FROM messages m
+    LEFT JOIN message_recipients mr ON mr.message_id = m.id AND mr.agent_id = ?
+    WHERE m.id = ?
+  `).get(agent.id, messageId);
+
+  if (!message) {
+    return Err({
+      type: "MESSAGE_NOT_FOUND",
+      message: `Message not found: ${messageId}`,
+      recoverable: true,
+    });
+  }
+
+  if (message.sender_id !== agent.id && message.kind !== "to" && message.kind !== "cc") {
+    return Err({
+      type: "NOT_RECIPIENT",
+      message: `Only the sender and to/cc recipients can see revisions of message ${messageId}`,
+      recoverable: false,
+    });
+  }
+
+  const revisions = getDb().query<Stored<MessageRevision>, [number]>(
+    "SELECT * FROM message_revisions WHERE message_id = ? ORDER BY id ASC"
+  ).all(messageId).map(withPayload);
+
+  return Ok(revisions);
+}
@@ -1,25 +1,30 @@
 import { getDb } from "../db.js";
-import type { MessageWithSender, Result, ApiError } from "../types.js";
+import type { MessageWithSender, Stored, Page, PageQuery, Result, ApiError } from "../types.js";
 import { Ok, Err } from "../types.js";
 import { getProject } from "./project.js";
+import { DELIVERED_SQL, withPayload } from "./message.js";
+import { offsetClause, toOffsetPage } from "../utils/cursor.js";
 
-export interface SearchQuery {
+export interface SearchQuery extends PageQuery {
   projectSlug: string;
   query: string;
-  limit?: number;
 }
 
 /**
- * Search messages using FTS5.
+ * Search messages using FTS5, best matches first. Scheduled messages are excluded until due,
+ * retracted messages for good.
+ *
+ * bm25 ranks shift whenever the index changes, so they cannot anchor a keyset cursor: pages
+ * are by offset, with cursors bound to the search path (fts or like) and the search string.
  */
-export function searchMessages(query: SearchQuery): Result<MessageWithSender[], ApiError> {
+export function searchMessages(query: SearchQuery): Result<Page<MessageWithSender>, ApiError> {
   const db = getDb();
 
   const projectResult = getProject(query.projectSlug);
   if (!projectResult.ok) return projectResult;
   const project = projectResult.value;
 
-  const limit = query.limit ?? 20;
+  const pageQuery = { ...query, limit: query.limit ?? 20 };
 
   // Escape FTS5 special characters and create search query
   const searchTerm = query.query
@@ -27,34 +32,40 @@ export function searchMessages(query: SearchQuery): Result<MessageWithSender[],
     .trim();
 
   if (!searchTerm) {
-    return Ok([]);
+    return Ok({ items: [], next_cursor: null, prev_cursor: null });
   }
 
   try {
     // Use FTS5 MATCH with bm25 ranking
-    const messages = db.query<MessageWithSender, [string, number, number]>(`
+    const scope = `fts:${searchTerm}`;
+    const clause = offsetClause(pageQuery, scope);
+    if (!clause.ok) return clause;
+
+    const messages = db.query<Stored<MessageWithSender>, (number | string)[]>(`
       SELECT m.*, a.name as sender_name, bm25(fts_messages) as rank
       FROM fts_messages fts
       JOIN messages m ON fts.rowid = m.id
       JOIN agents a ON m.sender_id = a.id
-      WHERE fts_messages MATCH ? AND m.project_id = ?
-      ORDER BY rank
-      LIMIT ?
-    `).all(searchTerm, project.id, limit);
+      WHERE fts_messages MATCH ? AND m.project_id = ? AND ${DELIVERED_SQL} AND m.retracted_ts IS NULL
+      ORDER BY rank, m.id${clause.value.limit}
+    `).all(searchTerm, project.id, ...clause.value.params).map(withPayload);
 
-    return Ok(messages);
+    return Ok(toOffsetPage(messages, pageQuery, clause.value.start, scope));
   } catch (error) {
     // Fallback to LIKE search if FTS fails
+    const scope = `like:${searchTerm}`;
+    const clause = offsetClause(pageQuery, scope);
+    if (!clause.ok) return clause;
+
     const likePattern = `%${searchTerm}%`;
-    const messages = db.query<MessageWithSender, [number, string, string, number]>(`
+    const messages = db.query<Stored<MessageWithSender>, (number | string)[]>(`
       SELECT m.*, a.name as sender_name
       FROM messages m
       JOIN agents a ON m.sender_id = a.id
-      WHERE m.project_id = ? AND (m.subject LIKE ? OR m.body_md LIKE ?)
-      ORDER BY m.created_ts DESC
-      LIMIT ?
-    `).all(project.id, likePattern, likePattern, limit);
+      WHERE m.project_id = ? AND (m.subject LIKE ? OR m.body_md LIKE ?) AND ${DELIVERED_SQL} AND m.retracted_ts IS NULL
+      ORDER BY m.created_ts DESC, m.id DESC${clause.value.limit}
+    `).all(project.id, likePattern, likePattern, ...clause.value.params).map(withPayload);
 
-    return Ok(messages);
+    return Ok(toOffsetPage(messages, pageQuery, clause.value.start, scope));
   }
 }
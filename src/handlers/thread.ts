@@ -0,0 +1,113 @@
+import { getDb, NOW_ISO } from "../db.js";
+import type { MessageWithSender, Stored, ThreadView, ThreadSummary, Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+import { getProject } from "./project.js";
+import { getRecipientStatuses, withPayload, DELIVERED_SQL, UNDEFERRED_SQL } from "./message.js";
+
+/**
+ * Get all messages in a thread, oldest first.
+ * BCC recipients are only shown to the viewer who sent the message,
+ * or to the BCC recipient themselves. Scheduled messages are only shown
+ * to their sender until due, and messages deferred by the viewer's
+ * do not disturb stay hidden from them until it ends.
+ */
+export function getThread(projectSlug: string, threadId: string, viewer?: string): Result<ThreadView, ApiError> {
+  const db = getDb();
+
+  const projectResult = getProject(projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  const messages = db.query<Stored<MessageWithSender>, [number, string, number, string, string]>(`
+    SELECT m.*, a.name as sender_name
+    FROM messages m
+    JOIN agents a ON m.sender_id = a.id
+    LEFT JOIN message_recipients mr ON mr.message_id = m.id
+      AND mr.agent_id = (SELECT id FROM agents WHERE project_id = ? AND name = ?)
+    WHERE m.project_id = ? AND m.thread_id = ? AND (${DELIVERED_SQL} OR a.name = ?) AND ${UNDEFERRED_SQL}
+    ORDER BY m.created_ts ASC, m.id ASC
+  `).all(project.id, viewer ?? "", project.id, threadId, viewer ?? "").map(withPayload);
+
+  if (messages.length === 0) {
+    return Err({
+      type: "THREAD_NOT_FOUND",
+      message: `Thread not found: ${threadId}`,
+      recoverable: true,
+    });
+  }
+
+  const statuses = getRecipientStatuses(messages.map(m => m.id));
+  const participants = new Set<string>();
+  const threadMessages = messages.map(m => {
+    const isSender = viewer !== undefined && viewer === m.sender_name;
+    const recipients = (statuses.get(m.id) ?? [])
+      .filter(r => r.kind !== "bcc" || isSender || r.agent_name === viewer);
+    participants.add(m.sender_name);
+    for (const r of recipients) participants.add(r.agent_name);
+    return { ...m, recipients };
+  });
+
+  return Ok({
+    thread_id: threadId,
+    messages: threadMessages,
+    participants: [...participants].sort(),
+    first_ts: messages[0].created_ts,
+    last_ts: messages[messages.length - 1].created_ts,
+  });
+}
+
+export interface ListThreadsQuery {
+  projectSlug: string;
+  limit?: number;
+}
+
+/**
+ * List threads in a project, most recently active first.
+ */
+export function listThreads(query: ListThreadsQuery): Result<ThreadSummary[], ApiError> {
+  const db = getDb();
+
+  const projectResult = getProject(query.projectSlug);
+  if (!projectResult.ok) return projectResult;
+  const project = projectResult.value;
+
+  let sql = `
+    SELECT
+      m.thread_id,
+      COUNT(*) as message_count,
+      MIN(m.created_ts) as first_ts,
+      MAX(m.created_ts) as last_ts,
+      (SELECT subject FROM messages
+        WHERE project_id = m.project_id AND thread_id = m.thread_id
+          AND (deliver_ts IS NULL OR deliver_ts <= ${NOW_ISO})
+        ORDER BY created_ts DESC, id DESC LIMIT 1) as last_subject,
+      (SELECT GROUP_CONCAT(name) FROM (
+        SELECT DISTINCT a.name FROM messages m2
+        JOIN agents a ON a.id = m2.sender_id
+        WHERE m2.project_id = m.project_id AND m2.thread_id = m.thread_id
+        UNION
+        SELECT DISTINCT a.name FROM messages m2
+        JOIN message_recipients mr ON mr.message_id = m2.id AND mr.kind != 'bcc'
+        JOIN agents a ON a.id = mr.agent_id
+        WHERE m2.project_id = m.project_id AND m2.thread_id = m.thread_id
+      )) as participants
+    FROM messages m
+    WHERE m.project_id = ? AND m.thread_id IS NOT NULL AND ${DELIVERED_SQL}
+    GROUP BY m.thread_id
+    ORDER BY last_ts DESC
+  `;
+  const params: (number | string)[] = [project.id];
+
+  if (query.limit) {
+    sql += " LIMIT ?";
+    params.push(query.limit);
+  }
+
+  const rows = db.query<Omit<ThreadSummary, "participants"> & { participants: string | null }, (number | string)[]>(sql)
+    .all(...params);
+
+  return Ok(rows.map(row => ({
+    ...row,
+    participants: row.participants ? row.participants.split(",").sort() : [],
+  })));
+}
@@ -1,23 +1,52 @@
 #!/usr/bin/env bun
 
+import { existsSync } from "fs";
 import { loadConfig, updateConfig, isDaemonRunning, paths } from "./config.js";
 import { startServer, stopServer } from "./server.js";
-import { apiRequest, isServerRunning } from "./utils/api.js";
+import { apiRequest, isServerRunning, streamEvents } from "./utils/api.js";
 import { resolvePath } from "./utils/project-detect.js";
+import { resolveIdentity, saveIdentity, getToken, type IdentitySource } from "./utils/identity.js";
+import { parseDuration, formatDuration } from "./utils/duration.js";
+import { loadTemplate, listTemplates, renderTemplate, templateVariables, AUTO_VARIABLES, type RenderedTemplate } from "./templates.js";
 import { printJson, printTable, printError, printSuccess, formatTime, truncate } from "./utils/output.js";
 import type {
   Project,
+  LinkedProject,
   Agent,
+  RegisteredAgent,
   Message,
   InboxMessage,
   MessageWithSender,
+  MessageWithReceipts,
+  MessageRevision,
+  Page,
+  KindSchema,
+  Channel,
+  ChannelSummary,
+  ContactPolicy,
+  ContactMode,
+  FileReservation,
   ReservationWithAgent,
   ReservationResult,
+  ReservationConflict,
   ServerStatus,
+  AmiciiEvent,
+  RecipientStatus,
+  ThreadView,
+  ThreadSummary,
+  PendingAcks,
+  Importance,
 } from "./types.js";
+import { IMPORTANCE_LEVELS } from "./types.js";
 
 const VERSION = "0.1.0";
 
+// Exit code when a blocking wait times out (matches coreutils `timeout`)
+const EXIT_TIMEOUT = 124;
+// Exit code when a strict reservation is refused
+const EXIT_CONFLICT = 2;
+const DEFAULT_WAIT_SECONDS = 300;
+
 function usage(): void {
   console.log(`Amicii v${VERSION} - Agent Coordination CLI
 
@@ -25,6 +54,7 @@ Usage: am <command> [options]
 
 Global:
   --json                        Output JSON (for AI agents)
+  --as <name>                   Act as agent (default: AMICII_AGENT, then identity file)
   --help, -h                    Show help
 
 Server:
@@ -32,30 +62,90 @@ Server:
   stop                          Stop server
   status [--json]               Server status
 
+Projects:
+  project link <path>           Let agents here message agents there (Name@slug);
+                                takes effect once the other project links back
+  project unlink <path|slug>    Remove a link (or decline a requested one)
+  project links [--json]        List linked projects
+  project strict <on|off>       Refuse conflicting reservations
+
 Agent:
-  agent register [--program X] [--model Y]    Register identity
-  agent list [--json]                         List agents
+  agent register [--program X] [--model Y] [--roles a,b]
+                                              Register identity (and roles)
+  agent list [--role X] [--json]              List agents
   agent whois <name> [--json]                 Get agent info
+  agent whoami [--json]                       Show acting agent for this session
 
 Messaging:
   send --to <agent> --subject <text> [--body <text>] [--thread <id>]
+       [--cc <agents>] [--bcc <agents>] [--importance low|normal|high|urgent]
+       [--deliver-in <duration>|--deliver-at <iso>] [--expires-in <duration>|--expires-at <iso>]
+  send --to role:<role> ...     Send to every agent with a role
+  send --template <name> [--var name=value ...]  Send from a template (flags override it)
+  templates [show <name>] [--json]  List message templates
   inbox [--unread] [--json]     View inbox
-  read <id> [--json]            Read message
+  inbox [--min-importance high] [--sort importance]
+  inbox --mentions              Only messages that @mention you
+  inbox [--label X] [--starred] [--archived]  Filter by folder state
+  archive <id...>               Hide messages from the inbox (unarchive to undo)
+  star <id...>                  Star messages (unstar to undo)
+  label <id> <label> [--remove] Add or remove a label
+  inbox --wait [--timeout 5m] [--thread ID] [--from AGENT]
+                                Block until a matching unread message arrives
+  read <id> [--history] [--json]  Read message (with prior revisions)
+  edit <id> [--subject <text>] [--body <text>] [--reason <text>]
+                                Edit a sent message
+  retract <id> [--reason <text>]  Retract a sent message
   ack <id>                      Acknowledge message
+  reply <id> --body <text> [--all] [--quote]  Reply in the same thread
+  thread <id> [--json]          Show a thread chronologically
+  threads [--limit N] [--json]  List active threads
+  outbox [--json]               Sent messages with read/ack counts
+  receipts <id> [--json]        Per-recipient read/ack state
+  acks [--json]                 Acks you owe and acks you are waiting on
+  send ... --kind <kind> [--payload-file <path>|--payload <json>]
+                                Send a structured message (see: am kinds)
+  inbox --kind <kind>           Only messages of a kind
+  kinds [--json]                List message kinds and payload fields
+
+Channels:
+  channel create <name> [--description <text>]  Create a channel and join it
+  channel join|leave <name>     Subscribe or unsubscribe
+  channel list [--json]         List channels (* = joined)
+  channel history <name>        Messages posted to a channel
+  send --to '#<name>' ...       Post to a channel's subscribers
+
+Contact policy:
+  policy show [--json]          Show who may message you
+  policy set [--mode open|allowlist] [--allow <agents>] [--block <agents>]
+             [--dnd-in <duration>|--dnd-at <iso>|--dnd-off]
+                                Update your policy (--allow/--block none clears)
 
 Reservations:
   reserve <pattern> --reason <id>   Reserve files
-  release [--all]                   Release reservations
+          [--ttl 30m] [--shared] [--strict]
+                                    TTL (default 1h); shared (read) lock; fail (exit 2) on conflict
+          [--wait [--timeout 10m]]  Queue behind conflicts until granted (exit 124 on timeout)
+  release [id|pattern|--all]        Release reservations (pattern: glob over held patterns)
+  renew [id|pattern|--all] [--ttl 30m]
+                                    Extend reservations by --ttl (default 1h)
   reservations [--active] [--json]  List reservations
 
 Search:
   search <query> [--json]       Search messages
 
+Lists (inbox, outbox, search, reservations, agent list):
+  --limit N --page <cursor>     Page through results
+  --all                         Fetch every page (NDJSON with --json)
+
+Events:
+  watch [--json] [--all]        Stream events (NDJSON with --json)
+
 Examples:
   am status --json
   am agent register --program opencode --model claude
   am reserve "src/**" --reason bd-42
-  am send --to all --subject "[bd-42] Starting" --thread bd-42
+  am send --template start --var bead=bd-42
   am inbox --unread
   am release --all
 `);
@@ -69,6 +159,416 @@ async function requireServer(): Promise<boolean> {
   return true;
 }
 
+/**
+ * Ensure the project for the current directory exists.
+ */
+async function ensureCurrentProject(): Promise<Project | null> {
+  const result = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: resolvePath() });
+  if (!result.ok) {
+    printError(result.error.message);
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Resolve the project and the acting agent for this session.
+ */
+async function resolveSession(
+  flags: Record<string, string | boolean>
+): Promise<{ project: Project; agent: string; source: IdentitySource; token?: string } | null> {
+  const project = await ensureCurrentProject();
+  if (!project) return null;
+
+  const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: project.slug });
+  if (!agentsResult.ok) {
+    printError(agentsResult.error.message);
+    return null;
+  }
+  const names = agentsResult.value.map(a => a.name);
+
+  const identity = resolveIdentity(project.slug, names, flags.as as string | undefined);
+  if (!identity.ok) {
+    printError(identity.error.message);
+    return null;
+  }
+  if (!names.includes(identity.value.name)) {
+    printError(`Agent not registered in this project: ${identity.value.name}`);
+    return null;
+  }
+
+  return { project, agent: identity.value.name, source: identity.value.source, token: identity.value.token };
+}
+
+/**
+ * Resolve the project and, when one can be determined, the acting agent.
+ * For commands where an identity only adds detail: without --as, AMICII_AGENT,
+ * the identity file or a single registered agent, they run without one.
+ */
+async function resolveOptionalSession(
+  flags: Record<string, string | boolean>
+): Promise<{ project: Project; agent?: string; token?: string } | null> {
+  const project = await ensureCurrentProject();
+  if (!project) return null;
+
+  const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: project.slug });
+  if (!agentsResult.ok) {
+    printError(agentsResult.error.message);
+    return null;
+  }
+  const names = agentsResult.value.map(a => a.name);
+
+  const identity = resolveIdentity(project.slug, names, flags.as as string | undefined);
+  if (!identity.ok) return { project };
+  if (!names.includes(identity.value.name)) {
+    printError(`Agent not registered in this project: ${identity.value.name}`);
+    return null;
+  }
+  return { project, agent: identity.value.name, token: identity.value.token };
+}
+
+/**
+ * Fetch a paginated list, starting at --page <cursor>.
+ * With --all, every page is fetched and handed to onPage as it arrives
+ * (--json prints one item per line); otherwise one page is shown and the
+ * cursor for the next page goes to stderr. Returns the item count, or null on error.
+ */
+async function fetchPages<T>(
+  path: string,
+  query: Record<string, string | undefined>,
+  flags: Record<string, string | boolean>,
+  onPage: (items: T[], first: boolean) => void,
+  token?: string
+): Promise<number | null> {
+  let cursor = typeof flags.page === "string" ? flags.page : undefined;
+  let total = 0;
+
+  for (;;) {
+    const result = await apiRequest<Page<T>>("GET", path, undefined, { ...query, paged: "true", after: cursor }, token);
+    if (!result.ok) {
+      printError(result.error.message);
+      return null;
+    }
+
+    const page = result.value;
+    if (flags.json && flags.all) {
+      for (const item of page.items) console.log(JSON.stringify(item));
+    } else if (flags.json) {
+      printJson(page.items);
+    } else if (page.items.length > 0) {
+      onPage(page.items, total === 0);
+    }
+    total += page.items.length;
+
+    if (!page.next_cursor) return total;
+    if (!flags.all) {
+      console.error(`More: --page ${page.next_cursor} (or --all)`);
+      return total;
+    }
+    cursor = page.next_cursor;
+  }
+}
+
+/**
+ * Read the message body from --body or --body-file.
+ * Returns null (after printing an error) if the file cannot be read.
+ */
+async function readBody(flags: Record<string, string | boolean>): Promise<string | null> {
+  if (flags["body-file"]) {
+    try {
+      return await Bun.file(flags["body-file"] as string).text();
+    } catch {
+      printError(`Cannot read file: ${flags["body-file"]}`);
+      return null;
+    }
+  }
+  return typeof flags.body === "string" ? flags.body : "";
+}
+
+/**
+ * Structured payload from --payload-file <path> or --payload <json>.
+ * Returns null (after printing an error) if it cannot be read or parsed.
+ */
+async function readPayload(flags: Record<string, string | boolean>): Promise<Record<string, unknown> | undefined | null> {
+  let text: string;
+  if (typeof flags["payload-file"] === "string") {
+    try {
+      text = await Bun.file(flags["payload-file"]).text();
+    } catch {
+      printError(`Cannot read file: ${flags["payload-file"]}`);
+      return null;
+    }
+  } else if (typeof flags.payload === "string") {
+    text = flags.payload;
+  } else {
+    return undefined;
+  }
+
+  try {
+    const payload = JSON.parse(text);
+    if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+      printError("Payload must be a JSON object");
+      return null;
+    }
+    return payload;
+  } catch (e) {
+    printError(`Invalid payload JSON: ${e instanceof Error ? e.message : e}`);
+    return null;
+  }
+}
+
+/**
+ * Importance from --importance (or --urgent).
+ * Returns null (after printing an error) if the level is invalid.
+ */
+function readImportance(flags: Record<string, string | boolean>): Importance | null {
+  if (typeof flags.importance === "string") {
+    const level = flags.importance as Importance;
+    if (!IMPORTANCE_LEVELS.includes(level)) {
+      printError(`Invalid importance: ${level} (${IMPORTANCE_LEVELS.join(", ")})`);
+      return null;
+    }
+    return level;
+  }
+  return flags.urgent ? "urgent" : "normal";
+}
+
+/**
+ * Seconds from --ttl <duration>.
+ * Returns null (after printing an error) if the value is invalid.
+ */
+function readTtl(flags: Record<string, string | boolean>): number | undefined | null {
+  if (typeof flags.ttl !== "string") return undefined;
+  const seconds = parseDuration(flags.ttl);
+  if (seconds === null) {
+    printError(`Invalid --ttl: ${flags.ttl} (e.g. 90s, 30m, 2h)`);
+  }
+  return seconds;
+}
+
+/**
+ * Seconds to block for --wait, from --timeout <duration> (default 5 minutes).
+ * Returns null (after printing an error) if the value is invalid.
+ */
+function readWaitTimeout(flags: Record<string, string | boolean>): number | null {
+  if (typeof flags.timeout !== "string") return DEFAULT_WAIT_SECONDS;
+  const seconds = parseDuration(flags.timeout);
+  if (seconds === null) {
+    printError(`Invalid --timeout: ${flags.timeout} (e.g. 90s, 15m, 2h)`);
+  }
+  return seconds;
+}
+
+/**
+ * One-line summary of a reservation conflict, e.g. "BlueLake: src/** [exclusive, queued]".
+ */
+function describeConflict(c: ReservationConflict): string {
+  const queued = c.status === "waiting" ? ", queued" : "";
+  return `${c.agent_name}: ${c.path_pattern} [${c.exclusive ? "exclusive" : "shared"}${queued}]`;
+}
+
+/**
+ * Reservation id or pattern from `am release|renew <id|pattern>`, or all of them.
+ */
+function reservationTarget(arg: string | undefined, flags: Record<string, string | boolean>): { id?: number; pattern?: string; all?: boolean } {
+  if (flags.all || !arg) return { all: true };
+  return /^\d+$/.test(arg) ? { id: parseInt(arg) } : { pattern: arg };
+}
+
+/**
+ * Timestamp from --<name>-in <duration> or --<name>-at <iso>.
+ * Returns null (after printing an error) if the value is invalid.
+ */
+function readScheduleTime(flags: Record<string, string | boolean>, name: string): string | undefined | null {
+  const inFlag = flags[`${name}-in`];
+  if (typeof inFlag === "string") {
+    const seconds = parseDuration(inFlag);
+    if (seconds === null) {
+      printError(`Invalid duration: ${inFlag} (e.g. 90s, 15m, 2h)`);
+      return null;
+    }
+    return new Date(Date.now() + seconds * 1000).toISOString();
+  }
+
+  const atFlag = flags[`${name}-at`];
+  if (typeof atFlag === "string") {
+    if (Number.isNaN(Date.parse(atFlag))) {
+      printError(`Invalid timestamp: ${atFlag} (e.g. 2026-01-31T17:00:00Z)`);
+      return null;
+    }
+    return new Date(atFlag).toISOString();
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect repeated --var name=value arguments.
+ * Returns null (after printing an error) if one is malformed.
+ */
+function readVars(args: string[]): Record<string, string> | null {
+  const vars: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] !== "--var") continue;
+    const pair = args[i + 1] ?? "";
+    const eq = pair.indexOf("=");
+    if (eq <= 0) {
+      printError(`Invalid --var: ${pair} (expected name=value)`);
+      return null;
+    }
+    vars[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  return vars;
+}
+
+/**
+ * Render a message template for the acting agent. {{agent}}, {{project}},
+ * {{reservations}} and {{files}} are filled in from the session unless given with --var.
+ * Returns null (after printing an error) if it cannot be rendered.
+ */
+async function renderSendTemplate(
+  name: string,
+  args: string[],
+  flags: Record<string, string | boolean>,
+  session: { project: Project; agent: string }
+): Promise<RenderedTemplate | null> {
+  const templateResult = loadTemplate(name);
+  if (!templateResult.ok) {
+    printError(templateResult.error.message);
+    return null;
+  }
+
+  const given = readVars(args);
+  if (!given) return null;
+
+  // No limit: every active reservation of this agent
+  const reservationsResult = await apiRequest<ReservationWithAgent[]>("GET", "/api/reservations", undefined, {
+    project: session.project.slug,
+    agent: session.agent,
+    active: "true",
+  });
+  const held = reservationsResult.ok ? reservationsResult.value : [];
+
+  const vars: Record<string, string> = {
+    agent: session.agent,
+    project: session.project.slug,
+    reservations: held.length > 0
+      ? held.map(r => `- \`${r.path_pattern}\`${r.reason ? ` (${r.reason})` : ""}`).join("\n")
+      : "(none)",
+    files: held.length > 0 ? held.map(r => r.path_pattern).join(", ") : "(none)",
+    ...(typeof flags.to === "string" ? { to: flags.to } : {}),
+    ...given,
+  };
+
+  const rendered = renderTemplate(templateResult.value, vars);
+  if (!rendered.ok) {
+    printError(rendered.error.message);
+    return null;
+  }
+  return rendered.value;
+}
+
+/**
+ * Read an agent-list flag: undefined if absent, [] for "none" or no value.
+ */
+function readNameList(value: string | boolean | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (value === true || value === "none") return [];
+  return String(value).split(",").map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Outbox marker for scheduled or expired messages.
+ */
+function scheduleMarker(msg: Message): string {
+  const now = Date.now();
+  if (msg.deliver_ts && Date.parse(msg.deliver_ts) > now) {
+    return ` [scheduled, in ${formatDuration(Math.ceil((Date.parse(msg.deliver_ts) - now) / 1000))}]`;
+  }
+  if (msg.expires_ts && Date.parse(msg.expires_ts) <= now) {
+    return " [expired]";
+  }
+  return "";
+}
+
+/**
+ * Inbox marker for a message's importance.
+ */
+function importanceMarker(importance: Importance): string {
+  return importance === "urgent" ? "[!]" : importance === "high" ? "[H]" : importance === "low" ? "[L]" : "";
+}
+
+/**
+ * Short read/ack state for one recipient, e.g. "RedFox (read 2m ago, acked)".
+ */
+function formatReceipt(r: RecipientStatus): string {
+  const state = r.ack_ts
+    ? `acked ${formatTime(r.ack_ts)}`
+    : r.read_ts
+      ? `read ${formatTime(r.read_ts)}`
+      : "unread";
+  return `${r.agent_name}${r.kind !== "to" ? ` [${r.kind}]` : ""} (${state})`;
+}
+
+/**
+ * Receipt counts for a sent message, e.g. "2/3 read, 1/3 acked".
+ */
+function summarizeReceipts(msg: MessageWithReceipts): string {
+  const total = msg.recipients.length;
+  const read = msg.recipients.filter(r => r.read_ts).length;
+  const summary = `${read}/${total} read`;
+  if (!msg.ack_required) return summary;
+  const acked = msg.recipients.filter(r => r.ack_ts).length;
+  return `${summary}, ${acked}/${total} acked`;
+}
+
+/**
+ * Recipients that still owe a read (or an ack, if required).
+ */
+function pendingRecipients(msg: MessageWithReceipts): string[] {
+  return msg.recipients
+    .filter(r => msg.ack_required ? !r.ack_ts : !r.read_ts)
+    .map(r => r.agent_name);
+}
+
+/**
+ * One-line human summary of an event.
+ */
+function describeEvent(event: AmiciiEvent): string {
+  const time = new Date(event.ts).toLocaleTimeString();
+  switch (event.type) {
+    case "message.new": {
+      const msg = event.data.message as MessageWithSender;
+      return `${time} message #${msg.id} from ${msg.sender_name}: ${truncate(msg.subject, 50)}`;
+    }
+    case "message.read":
+      return `${time} message #${event.data.message_id} read by ${event.data.agent}`;
+    case "message.ack":
+      return `${time} message #${event.data.message_id} acknowledged by ${event.data.agent}`;
+    case "message.edited":
+    case "message.retracted": {
+      const msg = event.data.message as MessageWithSender;
+      const verb = event.type.split(".")[1];
+      return `${time} message #${msg.id} ${verb} by ${msg.sender_name}: ${truncate(msg.subject, 50)}`;
+    }
+    case "reservation.granted":
+    case "reservation.waiting":
+    case "reservation.released":
+    case "reservation.renewed":
+    case "reservation.expired": {
+      const res = event.data.reservation as ReservationWithAgent;
+      const verb = event.type.split(".")[1];
+      return `${time} reservation ${verb}: ${res.agent_name} ${res.path_pattern}`;
+    }
+    case "agent.registered": {
+      const agent = event.data.agent as Agent;
+      return `${time} agent registered: ${agent.name} (${agent.program}/${agent.model})`;
+    }
+    default:
+      return `${time} ${event.type}`;
+  }
+}
+
 function getProjectSlug(): string {
   const path = resolvePath();
   // Simple slug: use last path component
@@ -77,6 +577,14 @@ function getProjectSlug(): string {
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
+
+  // Global --as <name> may appear anywhere, including before the command
+  let actAs: string | undefined;
+  const asIndex = args.indexOf("--as");
+  if (asIndex !== -1 && args[asIndex + 1] && !args[asIndex + 1].startsWith("--")) {
+    actAs = args[asIndex + 1];
+    args.splice(asIndex, 2);
+  }
   
   if (args.length === 0 || args[0] === "help" || args[0] === "--help" || args[0] === "-h") {
     usage();
@@ -101,6 +609,7 @@ async function main(): Promise<void> {
       }
     }
   }
+  if (actAs) flags.as = actAs;
 
   // Get positional args (non-flag args after command)
   const positional: string[] = [];
@@ -191,6 +700,82 @@ async function main(): Promise<void> {
         } else {
           printError(result.error.message);
         }
+      } else if (subcommand === "link" || subcommand === "unlink") {
+        const target = positional[1];
+        if (!target) {
+          printError(`Usage: am project ${subcommand} <path>`);
+          return;
+        }
+        const session = await resolveSession(flags);
+        if (!session) return;
+        const project = session.project;
+
+        // A project path or slug
+        let other = target;
+        if (existsSync(target)) {
+          const otherResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: resolvePath(target) });
+          if (!otherResult.ok) {
+            printError(otherResult.error.message);
+            return;
+          }
+          other = otherResult.value.slug;
+        }
+
+        const result = await apiRequest<unknown>("POST", `/api/project/${subcommand}`, {
+          project: project.slug,
+          agent: session.agent,
+          other,
+        }, undefined, session.token);
+        if (!result.ok) {
+          printError(result.error.message);
+        } else if (subcommand === "link" && (result.value as { linked: boolean }).linked) {
+          printSuccess(`Linked ${project.slug} <-> ${other}`);
+          console.log(`Address agents there as: <Name>@${other}`);
+        } else if (subcommand === "link") {
+          printSuccess(`Link to ${other} requested`);
+          console.log(`It takes effect once an agent there runs: am project link ${project.human_key}`);
+        } else if ((result.value as { unlinked: boolean }).unlinked) {
+          printSuccess(`Unlinked ${project.slug} and ${other}`);
+        } else {
+          console.log(`${project.slug} and ${other} were not linked`);
+        }
+      } else if (subcommand === "strict") {
+        const value = positional[1];
+        if (value !== "on" && value !== "off") {
+          printError("Usage: am project strict <on|off>");
+          return;
+        }
+        const session = await resolveSession(flags);
+        if (!session) return;
+
+        const result = await apiRequest<Project>("POST", "/api/project/settings", {
+          project: session.project.slug,
+          agent: session.agent,
+          strict_reservations: value === "on",
+        }, undefined, session.token);
+        if (result.ok) {
+          printSuccess(`Strict reservations ${value} for ${session.project.slug}`);
+        } else {
+          printError(result.error.message);
+        }
+      } else if (subcommand === "links") {
+        const project = await ensureCurrentProject();
+        if (!project) return;
+
+        const result = await apiRequest<LinkedProject[]>("GET", `/api/project/${project.slug}/links`);
+        if (!result.ok) {
+          printError(result.error.message);
+        } else if (flags.json) {
+          printJson(result.value);
+        } else if (result.value.length === 0) {
+          console.log("(no linked projects)");
+        } else {
+          printTable(result.value.map(p => ({ slug: p.slug, status: p.status, human_key: p.human_key })), [
+            { key: "slug", label: "Slug", width: 30 },
+            { key: "status", label: "Status", width: 10 },
+            { key: "human_key", label: "Path", width: 50 },
+          ]);
+        }
       }
       break;
     }
@@ -208,18 +793,24 @@ async function main(): Promise<void> {
           return;
         }
 
-        const result = await apiRequest<Agent>("POST", "/api/agent/register", {
+        const name = (flags.name ?? flags.as ?? process.env.AMICII_AGENT) as string | undefined;
+        const result = await apiRequest<RegisteredAgent>("POST", "/api/agent/register", {
           project_slug: projectResult.value.slug,
-          name: flags.name as string | undefined,
+          name,
           program: (flags.program as string) || "unknown",
           model: (flags.model as string) || "unknown",
           task_description: flags.task as string | undefined,
-        });
+          roles: typeof flags.roles === "string" ? flags.roles.split(",").map(s => s.trim()) : undefined,
+        }, undefined, name ? getToken(projectResult.value.slug, name) : undefined);
         if (result.ok) {
+          saveIdentity(projectResult.value.slug, projectResult.value.human_key, result.value.name, result.value.token);
           printSuccess(`Agent registered: ${result.value.name}`);
           console.log(`Program: ${result.value.program}`);
           console.log(`Model: ${result.value.model}`);
+          if (result.value.roles) console.log(`Roles: ${result.value.roles}`);
           console.log(`Project: ${projectResult.value.slug}`);
+          console.log(`\nTo act as this agent in this session:`);
+          console.log(`  export AMICII_AGENT=${result.value.name}`);
         } else {
           printError(result.error.message);
         }
@@ -241,6 +832,15 @@ async function main(): Promise<void> {
         } else {
           printError(result.error.message);
         }
+      } else if (subcommand === "whoami") {
+        const session = await resolveSession(flags);
+        if (!session) return;
+        if (flags.json) {
+          printJson({ name: session.agent, source: session.source, project: session.project.slug });
+        } else {
+          console.log(`${session.agent} (from ${session.source})`);
+          console.log(`Project: ${session.project.slug}`);
+        }
       } else if (subcommand === "list") {
         const path = resolvePath();
         const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
@@ -248,22 +848,71 @@ async function main(): Promise<void> {
           printError(projectResult.error.message);
           return;
         }
-        const result = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-        if (result.ok) {
-          if (flags.json) {
-            printJson(result.value);
-          } else {
-            printTable(result.value, [
-              { key: "name", label: "Name", width: 20 },
-              { key: "program", label: "Program", width: 15 },
-              { key: "model", label: "Model", width: 15 },
-              { key: "last_active_ts", label: "Last Active", width: 20 },
-            ]);
-          }
-        } else {
-          printError(result.error.message);
-        }
+        const total = await fetchPages<Agent>("/api/agents", {
+          project: projectResult.value.slug,
+          role: flags.role as string | undefined,
+          limit: flags.limit as string | undefined,
+        }, flags, (agents, first) => {
+          printTable(agents, [
+            { key: "name", label: "Name", width: 20 },
+            { key: "program", label: "Program", width: 15 },
+            { key: "model", label: "Model", width: 15 },
+            { key: "roles", label: "Roles", width: 20 },
+            { key: "last_active_ts", label: "Last Active", width: 20 },
+          ], first);
+        });
+        if (total === 0 && !flags.json) console.log("(no results)");
+      }
+      break;
+    }
+
+    // --- Contact policy ---
+    case "policy": {
+      if (!await requireServer()) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      let result;
+      if (subcommand === "set") {
+        const dndUntil = flags["dnd-off"] ? null : readScheduleTime(flags, "dnd");
+        if (dndUntil === null && !flags["dnd-off"]) return;
+
+        result = await apiRequest<ContactPolicy>("POST", "/api/policy", {
+          project: session.project.slug,
+          agent: session.agent,
+          mode: flags.mode as ContactMode | undefined,
+          allow: readNameList(flags.allow),
+          block: readNameList(flags.block),
+          dnd_until: dndUntil,
+        }, undefined, session.token);
+      } else if (subcommand === "show" || !subcommand) {
+        result = await apiRequest<ContactPolicy>("GET", "/api/policy", undefined, {
+          project: session.project.slug,
+          agent: session.agent,
+        }, session.token);
+      } else {
+        printError("Usage: am policy show|set");
+        return;
+      }
+
+      if (!result.ok) {
+        printError(result.error.message);
+        return;
       }
+      const policy = result.value;
+      if (flags.json) {
+        printJson(policy);
+        return;
+      }
+      if (subcommand === "set") printSuccess(`Contact policy updated for ${session.agent}`);
+      console.log(`Mode: ${policy.mode}${policy.mode === "allowlist" ? " (only allowed agents may message you)" : ""}`);
+      console.log(`Allow: ${policy.allow || "(none)"}`);
+      console.log(`Block: ${policy.block || "(none)"}`);
+      const dndLeft = policy.dnd_until ? Math.ceil((Date.parse(policy.dnd_until) - Date.now()) / 1000) : 0;
+      console.log(dndLeft > 0
+        ? `Do not disturb: until ${policy.dnd_until} (${formatDuration(dndLeft)} left, urgent still delivered)`
+        : "Do not disturb: off");
       break;
     }
 
@@ -271,141 +920,334 @@ async function main(): Promise<void> {
     case "send": {
       if (!await requireServer()) return;
 
-      const to = (flags.to as string)?.split(",").map(s => s.trim());
-      const cc = (flags.cc as string)?.split(",").map(s => s.trim());
-      const subject = flags.subject as string;
-      let body = flags.body as string;
-
-      if (flags["body-file"]) {
-        try {
-          body = await Bun.file(flags["body-file"] as string).text();
-        } catch {
-          printError(`Cannot read file: ${flags["body-file"]}`);
-          return;
-        }
+      // Explicit flags override the template
+      let template: RenderedTemplate | undefined;
+      let session: Awaited<ReturnType<typeof resolveSession>> = null;
+      if (typeof flags.template === "string") {
+        session = await resolveSession(flags);
+        if (!session) return;
+        const rendered = await renderSendTemplate(flags.template, args, flags, session);
+        if (!rendered) return;
+        template = rendered;
       }
 
+      const to = ((flags.to as string) ?? template?.to)?.split(",").map(s => s.trim());
+      const cc = ((flags.cc as string) ?? template?.cc)?.split(",").map(s => s.trim());
+      const bcc = (flags.bcc as string)?.split(",").map(s => s.trim());
+      const subject = (flags.subject as string) ?? template?.subject;
+      const thread = (flags.thread as string | undefined) ?? (template?.thread || undefined);
+      let body = await readBody(flags);
+      if (body === null) return;
+      if (template && !flags.body && !flags["body-file"]) body = template.body;
+
       if (!to || !subject) {
         printError("--to and --subject required");
         return;
       }
 
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
+      const ackWithin = typeof flags["ack-within"] === "string" ? parseDuration(flags["ack-within"]) : undefined;
+      if (ackWithin === null) {
+        printError(`Invalid duration: ${flags["ack-within"]} (e.g. 90s, 15m, 2h)`);
         return;
       }
 
-      // Get sender (first agent in project for now, or require explicit)
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered. Run: am agent register");
-        return;
-      }
-      const sender = agentsResult.value[0].name;
+      const importance = template?.importance && !flags.importance && !flags.urgent
+        ? template.importance
+        : readImportance(flags);
+      if (!importance) return;
+
+      const deliverAt = readScheduleTime(flags, "deliver");
+      const expiresAt = readScheduleTime(flags, "expires");
+      if (deliverAt === null || expiresAt === null) return;
+
+      const payload = await readPayload(flags);
+      if (payload === null) return;
+
+      session ??= await resolveSession(flags);
+      if (!session) return;
 
       const result = await apiRequest<Message>("POST", "/api/message/send", {
-        project_slug: projectResult.value.slug,
-        sender,
+        project_slug: session.project.slug,
+        sender: session.agent,
         to,
         cc,
+        bcc,
         subject,
         body_md: body || "",
-        thread_id: flags.thread as string | undefined,
-        importance: flags.urgent ? "urgent" : "normal",
+        thread_id: thread,
+        importance,
         ack_required: !!flags.ack,
-      });
+        ack_within_seconds: ackWithin,
+        deliver_at: deliverAt,
+        expires_at: expiresAt,
+        kind: (flags.kind as string | undefined) ?? (template?.kind || undefined),
+        payload,
+      }, undefined, session.token);
 
       if (result.ok) {
-        printSuccess(`Message sent (ID: ${result.value.id})`);
+        const sent = result.value;
+        printSuccess(sent.deliver_ts ? `Message scheduled (ID: ${sent.id})` : `Message sent (ID: ${sent.id})`);
         console.log(`To: ${to.join(", ")}`);
+        if (bcc) console.log(`BCC: ${bcc.join(", ")}`);
         console.log(`Subject: ${subject}`);
-        if (flags.thread) console.log(`Thread: ${flags.thread}`);
+        if (thread) console.log(`Thread: ${thread}`);
+        if (sent.deliver_ts) console.log(`Delivers: ${new Date(sent.deliver_ts).toLocaleString()}`);
+        if (sent.expires_ts) console.log(`Expires: ${new Date(sent.expires_ts).toLocaleString()}`);
+        if (sent.kind) console.log(`Kind: ${sent.kind}`);
       } else {
         printError(result.error.message);
       }
       break;
     }
 
-    case "inbox": {
+    case "reply": {
       if (!await requireServer()) return;
 
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
+      const messageId = positional[0];
+      if (!messageId) {
+        printError("Message ID required");
         return;
       }
 
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered. Run: am agent register");
+      let body = await readBody(flags);
+      if (body === null) return;
+
+      const importance = readImportance(flags);
+      if (!importance) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const originalResult = await apiRequest<MessageWithReceipts>("GET", `/api/message/${messageId}`, undefined, {
+        project: session.project.slug,
+        agent: session.agent,
+      }, session.token);
+      if (!originalResult.ok) {
+        printError(originalResult.error.message);
+        return;
+      }
+      const original = originalResult.value;
+
+      // Names on a message from a linked project are relative to that project
+      const origin = original.project_slug ?? session.project.slug;
+      const qualify = (name: string) => {
+        if (origin === session.project.slug) return name;
+        if (name.endsWith(`@${session.project.slug}`)) return name.slice(0, name.lastIndexOf("@"));
+        return name.includes("@") ? name : `${name}@${origin}`;
+      };
+
+      // Reply to the sender; --all also includes the original to/cc (minus ourselves and remote channels)
+      const split = (list: string) => list.split(",").map(s => s.trim()).filter(Boolean);
+      const addressed = original.sender_name === session.agent && origin === session.project.slug
+        ? split(original.to_agents)
+        : [original.sender_name];
+      const others = flags.all ? [...split(original.to_agents), ...split(original.cc_agents)] : [];
+      const to = [...new Set([...addressed, ...others]
+        .filter(name => origin === session.project.slug || !name.startsWith("#"))
+        .map(qualify))]
+        .filter(name => name !== session.agent);
+      if (to.length === 0) {
+        printError("No one to reply to");
         return;
       }
-      const agent = agentsResult.value[0].name;
 
-      const result = await apiRequest<InboxMessage[]>("GET", "/api/inbox", undefined, {
-        project: projectResult.value.slug,
-        agent,
+      const subject = typeof flags.subject === "string"
+        ? flags.subject
+        : /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`;
+
+      if (flags.quote) {
+        const quoted = original.body_md.split("\n").map(line => `> ${line}`).join("\n");
+        body = `${body}\n\nOn ${original.created_ts}, ${original.sender_name} wrote:\n${quoted}`.trimStart();
+      }
+
+      const result = await apiRequest<Message>("POST", "/api/message/send", {
+        project_slug: session.project.slug,
+        sender: session.agent,
+        to,
+        subject,
+        body_md: body,
+        thread_id: flags.thread as string | undefined,
+        importance,
+        ack_required: !!flags.ack,
+        reply_to_id: original.id,
+      }, undefined, session.token);
+
+      if (result.ok) {
+        printSuccess(`Reply sent (ID: ${result.value.id})`);
+        console.log(`To: ${to.join(", ")}`);
+        console.log(`Subject: ${subject}`);
+        if (result.value.thread_id) console.log(`Thread: ${result.value.thread_id}`);
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "inbox": {
+      if (!await requireServer()) return;
+
+      const timeout = flags.wait ? readWaitTimeout(flags) : undefined;
+      if (timeout === null) return;
+      const wait = timeout === undefined ? undefined : String(timeout);
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const query = {
+        project: session.project.slug,
+        agent: session.agent,
         limit: (flags.limit as string) || "20",
         urgent: flags.urgent ? "true" : undefined,
         unread: flags.unread ? "true" : undefined,
         since: flags.since as string | undefined,
-      });
+        thread: flags.thread as string | undefined,
+        from: flags.from as string | undefined,
+        min_importance: flags["min-importance"] as string | undefined,
+        sort: flags.sort as string | undefined,
+        mentions: flags.mentions ? "true" : undefined,
+        archived: flags.archived ? "true" : undefined,
+        starred: flags.starred ? "true" : undefined,
+        label: flags.label as string | undefined,
+        kind: flags.kind as string | undefined,
+      };
+
+      const printMessages = (messages: InboxMessage[]) => {
+        for (const msg of messages) {
+          const read = msg.read_ts ? " " : "*";
+          const ack = msg.ack_required && !msg.ack_ts ? "[ACK]" : "";
+          const imp = importanceMarker(msg.importance);
+          const bcc = msg.recipient_kind === "bcc" ? "[bcc]" : "";
+          const mention = msg.mentioned ? "[@]" : "";
+          const star = msg.starred ? "★ " : "";
+          const changed = msg.retracted_ts ? " [retracted]" : msg.edited_ts ? " [edited]" : "";
+          const labels = msg.labels ? ` {${msg.labels}}` : "";
+          const kind = msg.kind ? `<${msg.kind}> ` : "";
+          const sender = msg.origin_project ? `${msg.sender_name}@${msg.origin_project}` : msg.sender_name;
+          console.log(`${read} #${msg.id} ${star}${imp}${ack}${bcc}${mention} ${sender}: ${kind}${truncate(msg.subject, 50)} (${formatTime(msg.inbox_ts)})${changed}${labels}`);
+        }
+      };
 
-      if (result.ok) {
-        if (flags.json) {
-          printJson(result.value);
+      if (wait) {
+        const result = await apiRequest<InboxMessage[]>("GET", "/api/inbox", undefined, { ...query, wait });
+        if (!result.ok) {
+          printError(result.error.message);
         } else if (result.value.length === 0) {
-          console.log("(no messages)");
+          if (!flags.json) console.error("Timed out waiting for messages");
+          else printJson([]);
+          process.exitCode = EXIT_TIMEOUT;
+        } else if (flags.json) {
+          printJson(result.value);
         } else {
-          for (const msg of result.value) {
-            const read = msg.read_ts ? " " : "*";
-            const ack = msg.ack_required && !msg.ack_ts ? "[ACK]" : "";
-            const imp = msg.importance === "urgent" ? "[!]" : msg.importance === "high" ? "[H]" : "";
-            console.log(`${read} #${msg.id} ${imp}${ack} ${msg.sender_name}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)})`);
-          }
+          printMessages(result.value);
         }
-      } else {
-        printError(result.error.message);
+        break;
       }
+
+      const total = await fetchPages<InboxMessage>("/api/inbox", query, flags, printMessages);
+      if (total === 0 && !flags.json) console.log("(no messages)");
       break;
     }
 
     case "outbox": {
       if (!await requireServer()) return;
 
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const total = await fetchPages<MessageWithReceipts>("/api/outbox", {
+        project: session.project.slug,
+        agent: session.agent,
+        limit: (flags.limit as string) || "20",
+      }, flags, messages => {
+        for (const msg of messages) {
+          const ack = msg.ack_required ? "[ACK]" : "";
+          console.log(`#${msg.id} ${ack}→ ${msg.to_agents}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)}) [${summarizeReceipts(msg)}]${scheduleMarker(msg)}`);
+          const pending = pendingRecipients(msg);
+          if (msg.ack_required && pending.length > 0) {
+            console.log(`    awaiting ack: ${pending.join(", ")}`);
+          }
+        }
+      });
+      if (total === 0 && !flags.json) console.log("(no messages)");
+      break;
+    }
+
+    case "acks": {
+      if (!await requireServer()) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<PendingAcks>("GET", "/api/acks/pending", undefined, {
+        project: session.project.slug,
+        agent: session.agent,
+      });
+
+      if (!result.ok) {
+        printError(result.error.message);
         return;
       }
 
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered");
+      if (flags.json) {
+        printJson(result.value);
         return;
       }
-      const agent = agentsResult.value[0].name;
 
-      const result = await apiRequest<MessageWithSender[]>("GET", "/api/outbox", undefined, {
-        project: projectResult.value.slug,
-        agent,
-        limit: (flags.limit as string) || "20",
-      });
+      const due = (ts: string | null, overdue: boolean) =>
+        !ts ? "" : overdue ? " OVERDUE" : ` due ${new Date(ts).toLocaleTimeString()}`;
 
-      if (result.ok) {
-        if (result.value.length === 0) {
-          console.log("(no messages)");
-          return;
-        }
-        for (const msg of result.value) {
-          console.log(`#${msg.id} → ${msg.to_agents}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)})`);
-        }
-      } else {
+      console.log("You owe:");
+      if (result.value.owed.length === 0) console.log("  (nothing)");
+      for (const p of result.value.owed) {
+        console.log(`  #${p.message_id} from ${p.sender_name}: ${truncate(p.subject, 50)}${due(p.ack_due_ts, p.overdue)}`);
+      }
+
+      console.log("Awaiting:");
+      if (result.value.awaiting.length === 0) console.log("  (nothing)");
+      for (const p of result.value.awaiting) {
+        const reminders = p.ack_reminders > 0 ? ` (${p.ack_reminders} reminder${p.ack_reminders > 1 ? "s" : ""})` : "";
+        console.log(`  #${p.message_id} ${p.agent_name}: ${truncate(p.subject, 50)}${due(p.ack_due_ts, p.overdue)}${reminders}`);
+      }
+      break;
+    }
+
+    case "receipts": {
+      if (!await requireServer()) return;
+
+      const messageId = positional[0];
+      if (!messageId) {
+        printError("Message ID required");
+        return;
+      }
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<MessageWithReceipts>("GET", `/api/message/${messageId}`, undefined, {
+        project: session.project.slug,
+        agent: session.agent,
+      }, session.token);
+      if (!result.ok) {
         printError(result.error.message);
+        return;
+      }
+
+      const msg = result.value;
+      if (flags.json) {
+        printJson({ message_id: msg.id, ack_required: !!msg.ack_required, recipients: msg.recipients, pending: pendingRecipients(msg) });
+      } else {
+        console.log(`#${msg.id} ${msg.subject} [${summarizeReceipts(msg)}]`);
+        printTable(msg.recipients.map(r => ({
+          agent: r.agent_name,
+          kind: r.kind,
+          read: r.read_ts ? formatTime(r.read_ts) : "-",
+          ack: r.ack_ts ? formatTime(r.ack_ts) : msg.ack_required ? "pending" : "-",
+        })), [
+          { key: "agent", label: "Recipient", width: 20 },
+          { key: "kind", label: "Kind", width: 4 },
+          { key: "read", label: "Read", width: 12 },
+          { key: "ack", label: "Ack", width: 12 },
+        ]);
       }
       break;
     }
@@ -419,46 +1261,70 @@ async function main(): Promise<void> {
         return;
       }
 
+      const session = await resolveSession(flags);
+      if (!session) return;
+
       // Get message
-      const msgResult = await apiRequest<MessageWithSender>("GET", `/api/message/${messageId}`);
+      const msgResult = await apiRequest<MessageWithReceipts>("GET", `/api/message/${messageId}`, undefined, {
+        project: session.project.slug,
+        agent: session.agent,
+      }, session.token);
       if (!msgResult.ok) {
         printError(msgResult.error.message);
         return;
       }
 
       // Mark as read
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
-        return;
-      }
-
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (agentsResult.ok && agentsResult.value.length > 0) {
-        await apiRequest("POST", `/api/message/${messageId}/read`, {
-          project: projectResult.value.slug,
-          agent: agentsResult.value[0].name,
-        });
+      await apiRequest("POST", `/api/message/${messageId}/read`, {
+        project: session.project.slug,
+        agent: session.agent,
+      }, undefined, session.token);
+
+      let revisions: MessageRevision[] = [];
+      if (flags.history) {
+        const revResult = await apiRequest<MessageRevision[]>("GET", `/api/message/${messageId}/revisions`, undefined, {
+          project: session.project.slug,
+          agent: session.agent,
+        }, session.token);
+        if (revResult.ok) revisions = revResult.value;
+        else printError(revResult.error.message);
       }
 
       const msg = msgResult.value;
       if (flags.json) {
-        printJson(msg);
+        printJson(flags.history ? { ...msg, revisions } : msg);
       } else {
-        console.log(`From: ${msg.sender_name}`);
+        const remote = msg.project_slug && msg.project_slug !== session.project.slug;
+        console.log(`From: ${msg.sender_name}${remote ? `@${msg.project_slug}` : ""}`);
+        if (remote) console.log(`Project: ${msg.project_slug} (linked)`);
         console.log(`To: ${msg.to_agents}`);
         if (msg.cc_agents) console.log(`CC: ${msg.cc_agents}`);
+        if (msg.bcc_agents) console.log(`BCC: ${msg.bcc_agents}`);
         console.log(`Subject: ${msg.subject}`);
+        if (msg.importance !== "normal") console.log(`Importance: ${msg.importance}`);
         console.log(`Date: ${msg.created_ts}`);
         if (msg.thread_id) console.log(`Thread: ${msg.thread_id}`);
+        if (msg.reply_to_id) console.log(`In-Reply-To: #${msg.reply_to_id}`);
+        if (msg.edited_ts) console.log(`Edited: ${formatTime(msg.edited_ts)}`);
+        if (msg.retracted_ts) console.log(`Retracted: ${formatTime(msg.retracted_ts)}`);
+        if (msg.kind) console.log(`Kind: ${msg.kind}`);
         console.log(`---`);
-        console.log(msg.body_md);
+        console.log(msg.retracted_ts ? "(retracted by sender)" : msg.body_md);
+        if (msg.payload && !msg.retracted_ts) {
+          console.log(`--- payload`);
+          console.log(JSON.stringify(msg.payload, null, 2));
+        }
+
+        for (const rev of revisions) {
+          console.log(`\n--- revision before ${rev.action} (${formatTime(rev.created_ts)})${rev.reason ? `: ${rev.reason}` : ""}`);
+          console.log(`Subject: ${rev.subject}`);
+          console.log(rev.body_md);
+        }
       }
       break;
     }
 
-    case "ack": {
+    case "edit": {
       if (!await requireServer()) return;
 
       const messageId = positional[0];
@@ -467,23 +1333,77 @@ async function main(): Promise<void> {
         return;
       }
 
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
+      const hasBody = flags.body !== undefined || flags["body-file"] !== undefined;
+      const subject = flags.subject as string | undefined;
+      if (!hasBody && !subject) {
+        printError("--subject or --body required");
         return;
       }
+      const body = hasBody ? await readBody(flags) : undefined;
+      if (body === null) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<Message>("POST", `/api/message/${messageId}/edit`, {
+        project: session.project.slug,
+        agent: session.agent,
+        subject,
+        body_md: body,
+        reason: flags.reason as string | undefined,
+      }, undefined, session.token);
 
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered");
+      if (result.ok) {
+        printSuccess(`Message ${messageId} edited`);
+        console.log(`Subject: ${result.value.subject}`);
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "retract": {
+      if (!await requireServer()) return;
+
+      const messageId = positional[0];
+      if (!messageId) {
+        printError("Message ID required");
         return;
       }
 
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<Message>("POST", `/api/message/${messageId}/retract`, {
+        project: session.project.slug,
+        agent: session.agent,
+        reason: flags.reason as string | undefined,
+      }, undefined, session.token);
+
+      if (result.ok) {
+        printSuccess(`Message ${messageId} retracted`);
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "ack": {
+      if (!await requireServer()) return;
+
+      const messageId = positional[0];
+      if (!messageId) {
+        printError("Message ID required");
+        return;
+      }
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
       const result = await apiRequest<{ acknowledged: boolean }>("POST", `/api/message/${messageId}/ack`, {
-        project: projectResult.value.slug,
-        agent: agentsResult.value[0].name,
-      });
+        project: session.project.slug,
+        agent: session.agent,
+      }, undefined, session.token);
 
       if (result.ok) {
         printSuccess(`Message #${messageId} acknowledged`);
@@ -493,6 +1413,271 @@ async function main(): Promise<void> {
       break;
     }
 
+    case "archive":
+    case "unarchive":
+    case "star":
+    case "unstar": {
+      if (!await requireServer()) return;
+
+      const messageIds = positional.map(id => parseInt(id));
+      if (messageIds.length === 0 || messageIds.some(isNaN)) {
+        printError("Message ID(s) required");
+        return;
+      }
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const change = command === "archive" || command === "unarchive"
+        ? { archived: command === "archive" }
+        : { starred: command === "star" };
+      const result = await apiRequest<{ updated: number }>("POST", "/api/inbox/state", {
+        project: session.project.slug,
+        agent: session.agent,
+        message_ids: messageIds,
+        ...change,
+      }, undefined, session.token);
+
+      if (result.ok) {
+        const done = { archive: "archived", unarchive: "unarchived", star: "starred", unstar: "unstarred" }[command];
+        printSuccess(`${result.value.updated} message(s) ${done}`);
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "label": {
+      if (!await requireServer()) return;
+
+      const messageId = parseInt(positional[0]);
+      const label = positional[1];
+      if (isNaN(messageId) || !label) {
+        printError("Usage: am label <id> <label> [--remove]");
+        return;
+      }
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<{ updated: number }>("POST", "/api/inbox/state", {
+        project: session.project.slug,
+        agent: session.agent,
+        message_ids: [messageId],
+        [flags.remove ? "remove_labels" : "add_labels"]: [label],
+      }, undefined, session.token);
+
+      if (result.ok) {
+        printSuccess(flags.remove ? `Label "${label}" removed from #${messageId}` : `Message #${messageId} labelled "${label}"`);
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "thread": {
+      if (!await requireServer()) return;
+
+      const threadId = positional[0];
+      if (!threadId) {
+        printError("Thread ID required");
+        return;
+      }
+
+      // Identity is optional here; with one, BCC entries of our own messages are shown
+      const session = await resolveOptionalSession(flags);
+      if (!session) return;
+
+      const result = await apiRequest<ThreadView>("GET", `/api/thread/${encodeURIComponent(threadId)}`, undefined, {
+        project: session.project.slug,
+        agent: session.agent,
+      }, session.token);
+
+      if (result.ok) {
+        const thread = result.value;
+        if (flags.json) {
+          printJson(thread);
+        } else {
+          console.log(`Thread: ${thread.thread_id} (${thread.messages.length} messages)`);
+          console.log(`Participants: ${thread.participants.join(", ")}`);
+          console.log(`Activity: ${thread.first_ts} → ${thread.last_ts}`);
+          for (const msg of thread.messages) {
+            const replyTo = msg.reply_to_id ? `  ↳ #${msg.reply_to_id}` : "";
+            console.log(`\n#${msg.id} ${msg.sender_name} → ${msg.to_agents}${msg.cc_agents ? ` (cc ${msg.cc_agents})` : ""}${replyTo}  ${formatTime(msg.created_ts)}`);
+            console.log(`Subject: ${msg.subject}`);
+            if (msg.body_md) console.log(msg.body_md);
+            console.log(`Receipts: ${msg.recipients.map(formatReceipt).join(", ")}`);
+          }
+        }
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
+    case "channel": {
+      if (!await requireServer()) return;
+
+      const name = positional[1];
+      if (["create", "join", "leave", "history"].includes(subcommand) && !name) {
+        printError("Channel name required");
+        return;
+      }
+
+      if (subcommand === "create" || subcommand === "join" || subcommand === "leave") {
+        const session = await resolveSession(flags);
+        if (!session) return;
+
+        const result = await apiRequest<unknown>("POST", `/api/channel/${subcommand}`, {
+          project: session.project.slug,
+          agent: session.agent,
+          name,
+          description: flags.description as string | undefined,
+        }, undefined, session.token);
+
+        if (!result.ok) {
+          printError(result.error.message);
+        } else if (subcommand === "create") {
+          printSuccess(`Channel #${(result.value as Channel).name} created (you are subscribed)`);
+        } else if (subcommand === "join") {
+          printSuccess(`${session.agent} joined #${name.replace(/^#/, "")}`);
+        } else {
+          printSuccess(`${session.agent} left #${name.replace(/^#/, "")}`);
+        }
+      } else if (subcommand === "list") {
+        // Identity is optional here; with one, joined channels are marked
+        const session = await resolveOptionalSession(flags);
+        if (!session) return;
+
+        const result = await apiRequest<ChannelSummary[]>("GET", "/api/channels", undefined, {
+          project: session.project.slug,
+          agent: session.agent,
+        }, session.token);
+        if (!result.ok) {
+          printError(result.error.message);
+        } else if (flags.json) {
+          printJson(result.value);
+        } else if (result.value.length === 0) {
+          console.log("(no channels)");
+        } else {
+          for (const channel of result.value) {
+            const joined = channel.joined ? "*" : " ";
+            const description = channel.description ? ` - ${channel.description}` : "";
+            console.log(`${joined} #${channel.name} (${channel.member_count} members)${description}`);
+          }
+        }
+      } else if (subcommand === "history") {
+        const session = await resolveSession(flags);
+        if (!session) return;
+
+        const total = await fetchPages<MessageWithSender>(`/api/channel/${encodeURIComponent(name.replace(/^#/, ""))}/history`, {
+          project: session.project.slug,
+          agent: session.agent,
+          limit: (flags.limit as string) || "20",
+        }, flags, messages => {
+          for (const msg of messages) {
+            console.log(`#${msg.id} ${msg.sender_name}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)})`);
+          }
+        }, session.token);
+        if (total === 0 && !flags.json) console.log("(no messages)");
+      } else {
+        printError("Usage: am channel create|join|leave|list|history");
+      }
+      break;
+    }
+
+    case "templates": {
+      if (subcommand === "show") {
+        const name = positional[1];
+        if (!name) {
+          printError("Template name required");
+          return;
+        }
+        const result = loadTemplate(name);
+        if (!result.ok) {
+          printError(result.error.message);
+          return;
+        }
+        const template = result.value;
+        if (flags.json) {
+          printJson({ ...template, variables: Object.fromEntries(templateVariables(template)) });
+          return;
+        }
+        console.log(`# ${template.name} (${template.source})`);
+        for (const key of ["subject", "to", "cc", "thread", "importance", "kind"] as const) {
+          if (template[key]) console.log(`${key}: ${template[key]}`);
+        }
+        console.log(`---`);
+        console.log(template.body);
+        break;
+      }
+
+      const templates = listTemplates();
+      if (flags.json) {
+        printJson(templates);
+        break;
+      }
+      for (const template of templates) {
+        const variables = [...templateVariables(template)]
+          .filter(([name]) => !AUTO_VARIABLES.includes(name))
+          .map(([name, required]) => required ? name : `${name}?`);
+        console.log(`${template.name}${template.source === "file" ? " (file)" : ""} - ${template.subject}`);
+        if (variables.length > 0) console.log(`  vars: ${variables.join(", ")}`);
+      }
+      console.log(`\nCustom templates: ${paths.templates}/<name>.md`);
+      break;
+    }
+
+    case "kinds": {
+      if (!await requireServer()) return;
+
+      const result = await apiRequest<KindSchema[]>("GET", "/api/kinds");
+      if (!result.ok) {
+        printError(result.error.message);
+        return;
+      }
+      if (flags.json) {
+        printJson(result.value);
+        return;
+      }
+      for (const kind of result.value) {
+        console.log(`${kind.name} - ${kind.description}`);
+        for (const [name, field] of Object.entries(kind.fields)) {
+          const type = field.enum ? field.enum.join("|") : field.type;
+          const note = field.description ? `  ${field.description}` : "";
+          console.log(`  ${name}${field.required ? "" : "?"}: ${type}${note}`);
+        }
+      }
+      break;
+    }
+
+    case "threads": {
+      if (!await requireServer()) return;
+
+      const project = await ensureCurrentProject();
+      if (!project) return;
+
+      const result = await apiRequest<ThreadSummary[]>("GET", "/api/threads", undefined, {
+        project: project.slug,
+        limit: (flags.limit as string) || "20",
+      });
+
+      if (result.ok) {
+        if (flags.json) {
+          printJson(result.value);
+        } else if (result.value.length === 0) {
+          console.log("(no threads)");
+        } else {
+          for (const t of result.value) {
+            console.log(`${t.thread_id}  ${t.message_count} msg  ${t.participants.join(", ")}  ${truncate(t.last_subject, 40)} (${formatTime(t.last_ts)})`);
+          }
+        }
+      } else {
+        printError(result.error.message);
+      }
+      break;
+    }
+
     // --- Reservations ---
     case "reserve": {
       if (!await requireServer()) return;
@@ -503,36 +1688,60 @@ async function main(): Promise<void> {
         return;
       }
 
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
-        return;
-      }
+      const ttl = readTtl(flags);
+      if (ttl === null) return;
 
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered. Run: am agent register");
-        return;
-      }
+      const wait = flags.wait ? readWaitTimeout(flags) : undefined;
+      if (wait === null) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
 
       const result = await apiRequest<ReservationResult>("POST", "/api/reservation/create", {
-        project_slug: projectResult.value.slug,
-        agent: agentsResult.value[0].name,
+        project_slug: session.project.slug,
+        agent: session.agent,
         path_pattern: pattern,
-        ttl_seconds: flags.ttl ? parseInt(flags.ttl as string) : undefined,
+        ttl_seconds: ttl,
         exclusive: !flags.shared,
         reason: flags.reason as string | undefined,
-      });
+        strict: flags.strict ? true : undefined,
+        wait_seconds: wait,
+      }, undefined, session.token);
+
+      if (result.ok && result.value.waiting && wait) {
+        // Queued: block until granted, or give up our place in the queue
+        const queued = result.value.waiting;
+        console.error(`Waiting for ${pattern} (#${queued.id}) behind:`);
+        for (const c of result.value.conflicts) {
+          console.error(`  ${describeConflict(c)}`);
+        }
 
-      if (result.ok) {
+        const waited = await apiRequest<ReservationWithAgent>("GET", `/api/reservation/${queued.id}`, undefined, { wait: String(wait) });
+        if (waited.ok && waited.value.status === "granted" && !waited.value.released_ts) {
+          printSuccess(`Reserved: ${pattern} (until ${waited.value.expires_ts})`);
+        } else {
+          await apiRequest("POST", "/api/reservation/release", {
+            project_slug: session.project.slug,
+            agent: session.agent,
+            id: queued.id,
+          }, undefined, session.token);
+          printError(waited.ok ? `Timed out waiting for ${pattern}` : waited.error.message);
+          process.exitCode = EXIT_TIMEOUT;
+        }
+      } else if (result.ok) {
         printSuccess(`Reserved: ${pattern}`);
         if (result.value.conflicts.length > 0) {
           console.log("\nConflicts:");
           for (const c of result.value.conflicts) {
-            console.log(`  ${c.agent_name}: ${c.path_pattern} (expires: ${formatTime(c.expires_ts)})`);
+            console.log(`  ${describeConflict(c)} (expires: ${formatTime(c.expires_ts)})`);
           }
         }
+      } else if (result.error.type === "RESERVATION_CONFLICT") {
+        printError(`Not reserved: ${pattern}`);
+        for (const c of (result.error.data?.conflicts ?? []) as ReservationConflict[]) {
+          console.error(`  ${describeConflict(c)} (expires: ${c.expires_ts})`);
+        }
+        process.exitCode = EXIT_CONFLICT;
       } else {
         printError(result.error.message);
       }
@@ -542,27 +1751,14 @@ async function main(): Promise<void> {
     case "release": {
       if (!await requireServer()) return;
 
-      const pattern = positional[0];
-
-      const path = resolvePath();
-      const projectResult = await apiRequest<Project>("POST", "/api/project/ensure", { human_key: path });
-      if (!projectResult.ok) {
-        printError(projectResult.error.message);
-        return;
-      }
-
-      const agentsResult = await apiRequest<Agent[]>("GET", "/api/agents", undefined, { project: projectResult.value.slug });
-      if (!agentsResult.ok || agentsResult.value.length === 0) {
-        printError("No agents registered");
-        return;
-      }
+      const session = await resolveSession(flags);
+      if (!session) return;
 
       const result = await apiRequest<{ released: number }>("POST", "/api/reservation/release", {
-        project_slug: projectResult.value.slug,
-        agent: agentsResult.value[0].name,
-        pattern: pattern,
-        all: !!flags.all || !pattern,
-      });
+        project_slug: session.project.slug,
+        agent: session.agent,
+        ...reservationTarget(positional[0], flags),
+      }, undefined, session.token);
 
       if (result.ok) {
         printSuccess(`Released ${result.value.released} reservation(s)`);
@@ -572,6 +1768,37 @@ async function main(): Promise<void> {
       break;
     }
 
+    case "renew": {
+      if (!await requireServer()) return;
+
+      const ttl = readTtl(flags);
+      if (ttl === null) return;
+
+      const session = await resolveSession(flags);
+      if (!session) return;
+
+      const target = reservationTarget(positional[0], flags);
+      const result = await apiRequest<{ renewed: FileReservation[] }>(
+        "POST",
+        target.id !== undefined ? `/api/reservation/${target.id}/renew` : "/api/reservation/renew",
+        { project_slug: session.project.slug, agent: session.agent, ...target, ttl_seconds: ttl },
+        undefined,
+        session.token
+      );
+
+      if (!result.ok) {
+        printError(result.error.message);
+      } else if (flags.json) {
+        printJson(result.value);
+      } else {
+        printSuccess(`Renewed ${result.value.renewed.length} reservation(s)`);
+        for (const r of result.value.renewed) {
+          console.log(`  #${r.id} ${r.path_pattern} until ${r.expires_ts}`);
+        }
+      }
+      break;
+    }
+
     case "reservations": {
       if (!await requireServer()) return;
 
@@ -582,26 +1809,21 @@ async function main(): Promise<void> {
         return;
       }
 
-      const result = await apiRequest<ReservationWithAgent[]>("GET", "/api/reservations", undefined, {
+      const total = await fetchPages<ReservationWithAgent>("/api/reservations", {
         project: projectResult.value.slug,
         active: flags.active ? "true" : undefined,
+        limit: flags.limit as string | undefined,
+      }, flags, (reservations, first) => {
+        printTable(reservations, [
+          { key: "id", label: "ID", width: 6 },
+          { key: "agent_name", label: "Agent", width: 15 },
+          { key: "path_pattern", label: "Pattern", width: 30 },
+          { key: "status", label: "Status", width: 8 },
+          { key: "reason", label: "Reason", width: 15 },
+          { key: "expires_ts", label: "Expires", width: 20 },
+        ], first);
       });
-
-      if (result.ok) {
-        if (flags.json) {
-          printJson(result.value);
-        } else {
-          printTable(result.value, [
-            { key: "id", label: "ID", width: 6 },
-            { key: "agent_name", label: "Agent", width: 15 },
-            { key: "path_pattern", label: "Pattern", width: 30 },
-            { key: "reason", label: "Reason", width: 15 },
-            { key: "expires_ts", label: "Expires", width: 20 },
-          ]);
-        }
-      } else {
-        printError(result.error.message);
-      }
+      if (total === 0 && !flags.json) console.log("(no results)");
       break;
     }
 
@@ -622,23 +1844,45 @@ async function main(): Promise<void> {
         return;
       }
 
-      const result = await apiRequest<MessageWithSender[]>("GET", "/api/search", undefined, {
+      const total = await fetchPages<MessageWithSender>("/api/search", {
         project: projectResult.value.slug,
         q: query,
         limit: (flags.limit as string) || "20",
+      }, flags, messages => {
+        for (const msg of messages) {
+          console.log(`#${msg.id} ${msg.sender_name}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)})`);
+        }
       });
+      if (total === 0 && !flags.json) console.log("(no results)");
+      break;
+    }
 
-      if (result.ok) {
-        if (flags.json) {
-          printJson(result.value);
-        } else if (result.value.length === 0) {
-          console.log("(no results)");
-        } else {
-          for (const msg of result.value) {
-            console.log(`#${msg.id} ${msg.sender_name}: ${truncate(msg.subject, 50)} (${formatTime(msg.created_ts)})`);
-          }
-        }
+    // --- Events ---
+    case "watch": {
+      if (!await requireServer()) return;
+
+      // --all watches the project-wide events (reservations, registrations) without an identity
+      let project: Project | null;
+      let agent: string | undefined;
+      let token: string | undefined;
+      if (flags.all) {
+        project = await ensureCurrentProject();
       } else {
+        const session = await resolveSession(flags);
+        project = session?.project ?? null;
+        agent = session?.agent;
+        token = session?.token;
+      }
+      if (!project) return;
+
+      if (!flags.json) {
+        console.error(`Watching ${project.slug}${agent ? ` as ${agent}` : ""} (Ctrl+C to stop)`);
+      }
+
+      const result = await streamEvents({ project: project.slug, agent }, event => {
+        console.log(flags.json ? JSON.stringify(event) : describeEvent(event));
+      }, token);
+      if (!result.ok) {
         printError(result.error.message);
       }
       break;
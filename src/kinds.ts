@@ -0,0 +1,148 @@
+import type { KindSchema, PayloadField, Result, ApiError } from "./types.js";
+import { Ok, Err } from "./types.js";
+
+/**
+ * Registry of structured message kinds and their payload schemas.
+ * Payload fields not listed in a schema are allowed and kept as-is.
+ */
+
+const kinds = new Map<string, KindSchema>();
+
+/**
+ * Register (or replace) a message kind.
+ */
+export function registerKind(schema: KindSchema): void {
+  kinds.set(schema.name, schema);
+}
+
+/**
+ * Get a registered kind, or undefined.
+ */
+export function getKind(name: string): KindSchema | undefined {
+  return kinds.get(name);
+}
+
+/**
+ * List registered kinds, sorted by name.
+ */
+export function listKinds(): KindSchema[] {
+  return [...kinds.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function fieldError(name: string, field: PayloadField, value: unknown): string | null {
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") return `${name} must be a string`;
+      if (field.enum && !field.enum.includes(value)) return `${name} must be one of: ${field.enum.join(", ")}`;
+      return null;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${name} must be a number`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${name} must be a boolean`;
+    case "string[]":
+      return Array.isArray(value) && value.every(v => typeof v === "string") ? null : `${name} must be an array of strings`;
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value) ? null : `${name} must be an object`;
+  }
+}
+
+/**
+ * Validate a payload against a kind's schema.
+ */
+export function validatePayload(kind: string, payload: unknown): Result<Record<string, unknown>, ApiError> {
+  const schema = kinds.get(kind);
+  if (!schema) {
+    return Err({
+      type: "UNKNOWN_KIND",
+      message: `Unknown message kind: ${kind} (known: ${[...kinds.keys()].sort().join(", ")})`,
+      recoverable: true,
+    });
+  }
+
+  const value = payload ?? {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return Err({
+      type: "INVALID_PAYLOAD",
+      message: "payload must be a JSON object",
+      recoverable: true,
+    });
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const [name, field] of Object.entries(schema.fields)) {
+    if (record[name] === undefined || record[name] === null) {
+      if (field.required) errors.push(`${name} is required`);
+      continue;
+    }
+    const error = fieldError(name, field, record[name]);
+    if (error) errors.push(error);
+  }
+
+  if (errors.length > 0) {
+    return Err({
+      type: "INVALID_PAYLOAD",
+      message: `Invalid ${kind} payload: ${errors.join("; ")}`,
+      recoverable: true,
+      data: { kind, errors },
+    });
+  }
+
+  return Ok(record);
+}
+
+// --- Built-in kinds ---
+
+registerKind({
+  name: "task_request",
+  description: "Ask another agent to take on a task",
+  fields: {
+    task: { type: "string", required: true, description: "What needs doing" },
+    bead_id: { type: "string", description: "Tracking issue id" },
+    files: { type: "string[]", description: "Files involved" },
+    priority: { type: "string", enum: ["low", "normal", "high"] },
+  },
+});
+
+registerKind({
+  name: "review_request",
+  description: "Ask for a review of changes",
+  fields: {
+    files: { type: "string[]", required: true, description: "Files to review" },
+    ref: { type: "string", description: "Branch or commit" },
+    bead_id: { type: "string", description: "Tracking issue id" },
+    summary: { type: "string", description: "What changed and why" },
+  },
+});
+
+registerKind({
+  name: "handoff",
+  description: "Hand off in-progress work",
+  fields: {
+    task: { type: "string", required: true, description: "Work being handed off" },
+    bead_id: { type: "string", description: "Tracking issue id" },
+    files: { type: "string[]", description: "Files touched so far" },
+    next_steps: { type: "string[]", description: "What remains" },
+  },
+});
+
+registerKind({
+  name: "status",
+  description: "Report progress on a task",
+  fields: {
+    state: { type: "string", required: true, enum: ["started", "in_progress", "blocked", "done"] },
+    bead_id: { type: "string", description: "Tracking issue id" },
+    progress: { type: "number", description: "Percent complete (0-100)" },
+    detail: { type: "string" },
+  },
+});
+
+registerKind({
+  name: "question",
+  description: "Ask a question that needs an answer",
+  fields: {
+    question: { type: "string", required: true },
+    options: { type: "string[]", description: "Suggested answers" },
+    bead_id: { type: "string", description: "Tracking issue id" },
+  },
+});
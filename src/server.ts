@@ -1,15 +1,47 @@
 import { loadConfig, paths, writePid, removePid, getConfigValue } from "./config.js";
 import { getDb, closeDb, runRetention, getStats } from "./db.js";
-import { ensureProject, getProject, listProjects } from "./handlers/project.js";
-import { registerAgent, getAgent, listAgents } from "./handlers/agent.js";
-import { sendMessage, fetchInbox, fetchOutbox, getMessage, markRead, acknowledge } from "./handlers/message.js";
-import { createReservation, releaseReservations, listReservations } from "./handlers/reservation.js";
+import { ensureProject, getProject, listProjects, linkProjects, unlinkProjects, listLinkedProjects, setStrictReservations } from "./handlers/project.js";
+import { registerAgent, getAgent, listAgents, authenticateAgent } from "./handlers/agent.js";
+import {
+  sendMessage,
+  fetchInbox,
+  waitForInbox,
+  fetchOutbox,
+  getMessage,
+  markRead,
+  acknowledge,
+  fetchPendingAcks,
+  updateInboxState,
+  remindOverdueAcks,
+  deliverScheduledMessages,
+  releaseDeferredMessages,
+} from "./handlers/message.js";
+import {
+  createReservation,
+  releaseReservations,
+  renewReservations,
+  listReservations,
+  expireReservations,
+  checkOverlap,
+  getReservation,
+  waitForReservation,
+} from "./handlers/reservation.js";
 import { searchMessages } from "./handlers/search.js";
-import type { Result, ApiError, ServerStatus } from "./types.js";
+import { getThread, listThreads } from "./handlers/thread.js";
+import { editMessage, retractMessage, listRevisions } from "./handlers/revision.js";
+import { createChannel, joinChannel, leaveChannel, listChannels, channelHistory } from "./handlers/channel.js";
+import { getContactPolicy, setContactPolicy } from "./handlers/policy.js";
+import { subscribe, eventMatches } from "./events.js";
+import { listKinds } from "./kinds.js";
+import type { Server } from "bun";
+import type { Result, ApiError, ServerStatus, Importance, Page, PageQuery, ContactMode } from "./types.js";
+import { IMPORTANCE_LEVELS } from "./types.js";
 
 const VERSION = "0.1.0";
 let startTime = Date.now();
 let retentionInterval: ReturnType<typeof setInterval> | null = null;
+let expiryInterval: ReturnType<typeof setInterval> | null = null;
+let reminderInterval: ReturnType<typeof setInterval> | null = null;
 
 /**
  * JSON response helper.
@@ -28,6 +60,17 @@ function errorResponse(error: ApiError, status = 400): Response {
   return json({ error }, status);
 }
 
+/**
+ * Map an error type to an HTTP status.
+ */
+function errorStatus(type: string): number {
+  if (type === "UNAUTHORIZED") return 401;
+  if (type === "RECIPIENT_BLOCKED" || type === "NOT_RECIPIENT" || type === "NOT_CHANNEL_MEMBER") return 403;
+  if (type === "RESERVATION_CONFLICT") return 409;
+  if (type.includes("NOT_FOUND")) return 404;
+  return 400;
+}
+
 /**
  * Handle Result type responses.
  */
@@ -35,8 +78,27 @@ function resultResponse<T>(result: Result<T, ApiError>): Response {
   if (result.ok) {
     return json(result.value);
   }
-  const status = result.error.type.includes("NOT_FOUND") ? 404 : 400;
-  return errorResponse(result.error, status);
+  return errorResponse(result.error, errorStatus(result.error.type));
+}
+
+/**
+ * Respond with a list page. The { items, next_cursor, prev_cursor } envelope is only
+ * returned when the client asks for cursor paging (paged=true, after or before);
+ * otherwise the items come back as a bare array, the shape from before pagination.
+ */
+function pageResponse<T>(q: URLSearchParams, result: Result<Page<T>, ApiError>): Response {
+  if (!result.ok) return resultResponse(result);
+  const paged = q.get("paged") === "true" || q.has("after") || q.has("before");
+  return json(paged ? result.value : result.value.items);
+}
+
+/**
+ * Extract the bearer token from the Authorization header.
+ */
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.get("Authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
 }
 
 /**
@@ -57,10 +119,106 @@ function getQuery(req: Request): URLSearchParams {
   return new URL(req.url).searchParams;
 }
 
+/**
+ * Pagination params (limit, after, before) from a query string.
+ */
+function pageQuery(q: URLSearchParams): PageQuery {
+  const limit = parseInt(q.get("limit") ?? "");
+  return {
+    limit: limit > 0 ? limit : undefined,
+    after: q.get("after") ?? undefined,
+    before: q.get("before") ?? undefined,
+  };
+}
+
+/**
+ * Server-Sent Events stream of project events.
+ */
+function eventStream(req: Request, project: string, agent?: string): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribe(event => {
+        if (!eventMatches(event, project, agent)) return;
+        send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), 15000);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Release expired reservations and deliver scheduled messages that are due,
+ * publishing their events.
+ */
+function sweepExpired(): void {
+  try {
+    expireReservations();
+    deliverScheduledMessages();
+    releaseDeferredMessages();
+  } catch (e) {
+    console.error("Expiry sweep error:", e);
+  }
+}
+
+/**
+ * Send reminders for overdue acknowledgements.
+ */
+function sendAckReminders(): void {
+  try {
+    const { sent, failures } = remindOverdueAcks();
+    if (sent > 0) {
+      console.log(`Ack reminders: ${sent} sent`);
+    }
+    for (const failure of failures) {
+      const outcome = failure.retrying ? "will retry" : "reminders stopped";
+      console.error(`Ack reminder for message #${failure.message_id} failed (${outcome}): ${failure.error.type}: ${failure.error.message}`);
+    }
+  } catch (e) {
+    console.error("Ack reminder error:", e);
+  }
+}
+
 /**
  * Route handler.
  */
-async function handleRequest(req: Request): Promise<Response> {
+async function handleRequest(req: Request, server: Server<undefined>): Promise<Response> {
   const url = new URL(req.url);
   const path = url.pathname;
   const method = req.method;
@@ -89,6 +247,7 @@ async function handleRequest(req: Request): Promise<Response> {
 
   // Manual prune
   if (path === "/api/prune" && method === "POST") {
+    sweepExpired();
     const config = loadConfig();
     const result = runRetention(config.retention_days);
     return json(result);
@@ -107,6 +266,31 @@ async function handleRequest(req: Request): Promise<Response> {
     return json(listProjects());
   }
 
+  if ((path === "/api/project/link" || path === "/api/project/unlink") && method === "POST") {
+    const body = await parseBody<{ project: string; agent: string; other: string }>(req);
+    if (!body?.project || !body?.agent || !body?.other) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project, agent and other required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    if (path === "/api/project/link") return resultResponse(linkProjects(body.project, body.other));
+    return resultResponse(unlinkProjects(body.project, body.other));
+  }
+
+  if (path === "/api/project/settings" && method === "POST") {
+    const body = await parseBody<{ project: string; agent: string; strict_reservations?: boolean }>(req);
+    if (!body?.project || !body?.agent || typeof body.strict_reservations !== "boolean") {
+      return errorResponse({ type: "INVALID_INPUT", message: "project, agent and strict_reservations required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(setStrictReservations(body.project, body.strict_reservations));
+  }
+
+  if (path.match(/^\/api\/project\/[^/]+\/links$/) && method === "GET") {
+    return resultResponse(listLinkedProjects(path.split("/")[3]));
+  }
+
   if (path.startsWith("/api/project/") && method === "GET") {
     const slug = path.slice("/api/project/".length);
     return resultResponse(getProject(slug));
@@ -120,6 +304,7 @@ async function handleRequest(req: Request): Promise<Response> {
       program: string;
       model: string;
       task_description?: string;
+      roles?: string[];
     }>(req);
     if (!body?.project_slug || !body?.program || !body?.model) {
       return errorResponse({ type: "INVALID_INPUT", message: "project_slug, program, model required", recoverable: true });
@@ -130,15 +315,18 @@ async function handleRequest(req: Request): Promise<Response> {
       program: body.program,
       model: body.model,
       taskDescription: body.task_description,
+      token: bearerToken(req),
+      roles: body.roles,
     }));
   }
 
   if (path === "/api/agents" && method === "GET") {
-    const project = getQuery(req).get("project");
+    const query = getQuery(req);
+    const project = query.get("project");
     if (!project) {
       return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
     }
-    return resultResponse(listAgents(project));
+    return pageResponse(query, listAgents(project, { ...pageQuery(query), role: query.get("role") ?? undefined }));
   }
 
   if (path.match(/^\/api\/agent\/[^/]+\/[^/]+$/) && method === "GET") {
@@ -148,6 +336,43 @@ async function handleRequest(req: Request): Promise<Response> {
     return resultResponse(getAgent(project, name));
   }
 
+  // --- Contact policies ---
+  if (path === "/api/policy" && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent");
+    if (!project || !agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project and agent query params required", recoverable: true });
+    }
+    const auth = authenticateAgent(project, agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(getContactPolicy(project, agent));
+  }
+
+  if (path === "/api/policy" && method === "POST") {
+    const body = await parseBody<{
+      project: string;
+      agent: string;
+      mode?: ContactMode;
+      allow?: string[];
+      block?: string[];
+      dnd_until?: string | null;
+    }>(req);
+    if (!body?.project || !body?.agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project and agent required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(setContactPolicy({
+      projectSlug: body.project,
+      agentName: body.agent,
+      mode: body.mode,
+      allow: body.allow,
+      block: body.block,
+      dndUntil: body.dnd_until,
+    }));
+  }
+
   // --- Messages ---
   if (path === "/api/message/send" && method === "POST") {
     const body = await parseBody<{
@@ -155,25 +380,41 @@ async function handleRequest(req: Request): Promise<Response> {
       sender: string;
       to: string[];
       cc?: string[];
+      bcc?: string[];
       subject: string;
       body_md: string;
       thread_id?: string;
-      importance?: "low" | "normal" | "high" | "urgent";
+      importance?: Importance;
       ack_required?: boolean;
+      reply_to_id?: number;
+      ack_within_seconds?: number;
+      deliver_at?: string;
+      expires_at?: string;
+      kind?: string;
+      payload?: Record<string, unknown>;
     }>(req);
     if (!body?.project_slug || !body?.sender || !body?.to || !body?.subject || body?.body_md === undefined) {
       return errorResponse({ type: "INVALID_INPUT", message: "project_slug, sender, to, subject, body_md required", recoverable: true });
     }
+    const auth = authenticateAgent(body.project_slug, body.sender, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
     return resultResponse(sendMessage({
       projectSlug: body.project_slug,
       sender: body.sender,
       to: body.to,
       cc: body.cc,
+      bcc: body.bcc,
       subject: body.subject,
       bodyMd: body.body_md,
       threadId: body.thread_id,
       importance: body.importance,
       ackRequired: body.ack_required,
+      replyToId: body.reply_to_id,
+      ackWithinSeconds: body.ack_within_seconds,
+      deliverAt: body.deliver_at,
+      expiresAt: body.expires_at,
+      kind: body.kind,
+      payload: body.payload,
     }));
   }
 
@@ -184,13 +425,127 @@ async function handleRequest(req: Request): Promise<Response> {
     if (!project || !agent) {
       return errorResponse({ type: "INVALID_INPUT", message: "project and agent query params required", recoverable: true });
     }
-    return resultResponse(fetchInbox({
+    const inboxQuery = {
       projectSlug: project,
       agentName: agent,
-      limit: q.get("limit") ? parseInt(q.get("limit")!) : undefined,
+      ...pageQuery(q),
       urgent: q.get("urgent") === "true",
       unread: q.get("unread") === "true",
       since: q.get("since") ?? undefined,
+      thread: q.get("thread") ?? undefined,
+      from: q.get("from") ?? undefined,
+      minImportance: (q.get("min_importance") ?? undefined) as Importance | undefined,
+      sort: q.get("sort") === "importance" ? "importance" as const : undefined,
+      mentions: q.get("mentions") === "true",
+      archived: q.get("archived") === "true",
+      starred: q.get("starred") === "true",
+      label: q.get("label") ?? undefined,
+      kind: q.get("kind") ?? undefined,
+    };
+    if (inboxQuery.minImportance && !IMPORTANCE_LEVELS.includes(inboxQuery.minImportance)) {
+      return errorResponse({ type: "INVALID_INPUT", message: `min_importance must be one of: ${IMPORTANCE_LEVELS.join(", ")}`, recoverable: true });
+    }
+
+    // Long-poll: wait up to `wait` seconds for a matching unread message
+    const wait = q.get("wait") ? parseFloat(q.get("wait")!) : 0;
+    if (isNaN(wait) || wait < 0) {
+      return errorResponse({ type: "INVALID_INPUT", message: "wait must be a non-negative number of seconds", recoverable: true });
+    }
+    if (wait > 0) {
+      server.timeout(req, 0);
+      return pageResponse(q, await waitForInbox(inboxQuery, wait, req.signal));
+    }
+
+    return pageResponse(q, fetchInbox(inboxQuery));
+  }
+
+  // --- Channels ---
+  if (path === "/api/channel/create" && method === "POST") {
+    const body = await parseBody<{ project: string; agent: string; name: string; description?: string }>(req);
+    if (!body?.project || !body?.agent || !body?.name) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project, agent and name required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(createChannel({
+      projectSlug: body.project,
+      agentName: body.agent,
+      name: body.name,
+      description: body.description,
+    }));
+  }
+
+  if ((path === "/api/channel/join" || path === "/api/channel/leave") && method === "POST") {
+    const body = await parseBody<{ project: string; agent: string; name: string }>(req);
+    if (!body?.project || !body?.agent || !body?.name) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project, agent and name required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    const input = { projectSlug: body.project, agentName: body.agent, name: body.name };
+    if (path.endsWith("/join")) return resultResponse(joinChannel(input));
+    return resultResponse(leaveChannel(input));
+  }
+
+  if (path === "/api/channels" && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    if (!project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
+    }
+    // `joined` is only reported to the agent itself
+    const agent = q.get("agent") ?? undefined;
+    if (agent) {
+      const auth = authenticateAgent(project, agent, bearerToken(req));
+      if (!auth.ok) return resultResponse(auth);
+    }
+    return resultResponse(listChannels(project, agent));
+  }
+
+  if (path.match(/^\/api\/channel\/[^/]+\/history$/) && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent");
+    if (!project || !agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project and agent query params required", recoverable: true });
+    }
+    const auth = authenticateAgent(project, agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return pageResponse(q, channelHistory({
+      projectSlug: project,
+      agentName: agent,
+      name: decodeURIComponent(path.split("/")[3]),
+      ...pageQuery(q),
+    }));
+  }
+
+  if (path === "/api/kinds" && method === "GET") {
+    return json(listKinds());
+  }
+
+  if (path === "/api/inbox/state" && method === "POST") {
+    const body = await parseBody<{
+      project: string;
+      agent: string;
+      message_ids: number[];
+      archived?: boolean;
+      starred?: boolean;
+      add_labels?: string[];
+      remove_labels?: string[];
+    }>(req);
+    if (!body?.project || !body?.agent || !Array.isArray(body?.message_ids)) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project, agent and message_ids required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(updateInboxState({
+      projectSlug: body.project,
+      agentName: body.agent,
+      messageIds: body.message_ids,
+      archived: body.archived,
+      starred: body.starred,
+      addLabels: body.add_labels,
+      removeLabels: body.remove_labels,
     }));
   }
 
@@ -201,16 +556,26 @@ async function handleRequest(req: Request): Promise<Response> {
     if (!project || !agent) {
       return errorResponse({ type: "INVALID_INPUT", message: "project and agent query params required", recoverable: true });
     }
-    return resultResponse(fetchOutbox({
+    return pageResponse(q, fetchOutbox({
       projectSlug: project,
       agentName: agent,
-      limit: q.get("limit") ? parseInt(q.get("limit")!) : undefined,
+      ...pageQuery(q),
     }));
   }
 
   if (path.match(/^\/api\/message\/\d+$/) && method === "GET") {
     const id = parseInt(path.split("/").pop()!);
-    return resultResponse(getMessage(id));
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent");
+    if (!agent) return resultResponse(getMessage(id));
+    // The viewer decides whether BCC entries and scheduled messages are shown
+    if (!project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project required with agent", recoverable: true });
+    }
+    const auth = authenticateAgent(project, agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(getMessage(id, auth.value));
   }
 
   if (path.match(/^\/api\/message\/\d+\/read$/) && method === "POST") {
@@ -219,6 +584,8 @@ async function handleRequest(req: Request): Promise<Response> {
     if (!body?.agent || !body?.project) {
       return errorResponse({ type: "INVALID_INPUT", message: "agent and project required", recoverable: true });
     }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
     return resultResponse(markRead(body.project, body.agent, id));
   }
 
@@ -228,9 +595,96 @@ async function handleRequest(req: Request): Promise<Response> {
     if (!body?.agent || !body?.project) {
       return errorResponse({ type: "INVALID_INPUT", message: "agent and project required", recoverable: true });
     }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
     return resultResponse(acknowledge(body.project, body.agent, id));
   }
 
+  if (path.match(/^\/api\/message\/\d+\/edit$/) && method === "POST") {
+    const id = parseInt(path.split("/")[3]);
+    const body = await parseBody<{ agent: string; project: string; subject?: string; body_md?: string; reason?: string }>(req);
+    if (!body?.agent || !body?.project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "agent and project required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(editMessage({
+      projectSlug: body.project,
+      agentName: body.agent,
+      messageId: id,
+      subject: body.subject,
+      bodyMd: body.body_md,
+      reason: body.reason,
+    }));
+  }
+
+  if (path.match(/^\/api\/message\/\d+\/retract$/) && method === "POST") {
+    const id = parseInt(path.split("/")[3]);
+    const body = await parseBody<{ agent: string; project: string; reason?: string }>(req);
+    if (!body?.agent || !body?.project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "agent and project required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(retractMessage({
+      projectSlug: body.project,
+      agentName: body.agent,
+      messageId: id,
+      reason: body.reason,
+    }));
+  }
+
+  if (path.match(/^\/api\/message\/\d+\/revisions$/) && method === "GET") {
+    const id = parseInt(path.split("/")[3]);
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent");
+    if (!project || !agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project and agent required", recoverable: true });
+    }
+    const auth = authenticateAgent(project, agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    return resultResponse(listRevisions(project, agent, id));
+  }
+
+  if (path === "/api/acks/pending" && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent");
+    if (!project || !agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project and agent query params required", recoverable: true });
+    }
+    return resultResponse(fetchPendingAcks(project, agent));
+  }
+
+  // --- Threads ---
+  if (path === "/api/threads" && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    if (!project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
+    }
+    return resultResponse(listThreads({
+      projectSlug: project,
+      limit: q.get("limit") ? parseInt(q.get("limit")!) : undefined,
+    }));
+  }
+
+  if (path.match(/^\/api\/thread\/[^/]+$/) && method === "GET") {
+    const threadId = decodeURIComponent(path.slice("/api/thread/".length));
+    const q = getQuery(req);
+    const project = q.get("project");
+    if (!project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
+    }
+    const agent = q.get("agent") ?? undefined;
+    if (agent) {
+      const auth = authenticateAgent(project, agent, bearerToken(req));
+      if (!auth.ok) return resultResponse(auth);
+    }
+    return resultResponse(getThread(project, threadId, agent));
+  }
+
   // --- Reservations ---
   if (path === "/api/reservation/create" && method === "POST") {
     const body = await parseBody<{
@@ -240,10 +694,14 @@ async function handleRequest(req: Request): Promise<Response> {
       ttl_seconds?: number;
       exclusive?: boolean;
       reason?: string;
+      strict?: boolean;
+      wait_seconds?: number;
     }>(req);
     if (!body?.project_slug || !body?.agent || !body?.path_pattern) {
       return errorResponse({ type: "INVALID_INPUT", message: "project_slug, agent, path_pattern required", recoverable: true });
     }
+    const auth = authenticateAgent(body.project_slug, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
     return resultResponse(createReservation({
       projectSlug: body.project_slug,
       agentName: body.agent,
@@ -251,6 +709,8 @@ async function handleRequest(req: Request): Promise<Response> {
       ttlSeconds: body.ttl_seconds,
       exclusive: body.exclusive,
       reason: body.reason,
+      strict: body.strict,
+      waitSeconds: body.wait_seconds,
     }));
   }
 
@@ -258,29 +718,88 @@ async function handleRequest(req: Request): Promise<Response> {
     const body = await parseBody<{
       project_slug: string;
       agent: string;
+      id?: number;
       pattern?: string;
       all?: boolean;
     }>(req);
     if (!body?.project_slug || !body?.agent) {
       return errorResponse({ type: "INVALID_INPUT", message: "project_slug, agent required", recoverable: true });
     }
+    const auth = authenticateAgent(body.project_slug, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
     return resultResponse(releaseReservations({
       projectSlug: body.project_slug,
       agentName: body.agent,
+      id: body.id,
       pattern: body.pattern,
       all: body.all,
     }));
   }
 
+  if ((path === "/api/reservation/renew" || path.match(/^\/api\/reservation\/\d+\/renew$/)) && method === "POST") {
+    const body = await parseBody<{
+      project_slug: string;
+      agent: string;
+      pattern?: string;
+      all?: boolean;
+      ttl_seconds?: number;
+    }>(req);
+    if (!body?.project_slug || !body?.agent) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project_slug, agent required", recoverable: true });
+    }
+    const auth = authenticateAgent(body.project_slug, body.agent, bearerToken(req));
+    if (!auth.ok) return resultResponse(auth);
+    const id = path === "/api/reservation/renew" ? undefined : parseInt(path.split("/")[3]);
+    return resultResponse(renewReservations({
+      projectSlug: body.project_slug,
+      agentName: body.agent,
+      id,
+      pattern: id === undefined ? body.pattern : undefined,
+      all: id === undefined ? body.all : undefined,
+      ttlSeconds: body.ttl_seconds,
+    }));
+  }
+
+  if (path.match(/^\/api\/reservation\/\d+$/) && method === "GET") {
+    const id = parseInt(path.split("/").pop()!);
+    // Long-poll: wait up to `wait` seconds for a queued reservation to be granted
+    const wait = getQuery(req).get("wait") ? parseFloat(getQuery(req).get("wait")!) : 0;
+    if (isNaN(wait) || wait < 0) {
+      return errorResponse({ type: "INVALID_INPUT", message: "wait must be a non-negative number of seconds", recoverable: true });
+    }
+    if (wait > 0) {
+      server.timeout(req, 0);
+      return resultResponse(await waitForReservation(id, wait, req.signal));
+    }
+    return resultResponse(getReservation(id));
+  }
+
+  if (path === "/api/reservation/overlap" && method === "GET") {
+    const q = getQuery(req);
+    const a = q.get("a");
+    const b = q.get("b");
+    if (!a || !b) {
+      return errorResponse({ type: "INVALID_INPUT", message: "a and b query params required", recoverable: true });
+    }
+    return resultResponse(checkOverlap({
+      a,
+      b,
+      projectSlug: q.get("project") ?? undefined,
+      files: q.get("files") === "true",
+    }));
+  }
+
   if (path === "/api/reservations" && method === "GET") {
     const q = getQuery(req);
     const project = q.get("project");
     if (!project) {
       return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
     }
-    return resultResponse(listReservations({
+    return pageResponse(q, listReservations({
       projectSlug: project,
       active: q.get("active") === "true",
+      agentName: q.get("agent") ?? undefined,
+      ...pageQuery(q),
     }));
   }
 
@@ -292,13 +811,32 @@ async function handleRequest(req: Request): Promise<Response> {
     if (!project || !query) {
       return errorResponse({ type: "INVALID_INPUT", message: "project and q query params required", recoverable: true });
     }
-    return resultResponse(searchMessages({
+    return pageResponse(q, searchMessages({
       projectSlug: project,
       query: query,
-      limit: q.get("limit") ? parseInt(q.get("limit")!) : undefined,
+      ...pageQuery(q),
     }));
   }
 
+  // --- Events ---
+  if (path === "/api/events" && method === "GET") {
+    const q = getQuery(req);
+    const project = q.get("project");
+    const agent = q.get("agent") ?? undefined;
+    if (!project) {
+      return errorResponse({ type: "INVALID_INPUT", message: "project query param required", recoverable: true });
+    }
+    const projectResult = getProject(project);
+    if (!projectResult.ok) return resultResponse(projectResult);
+    if (agent) {
+      const auth = authenticateAgent(project, agent, bearerToken(req));
+      if (!auth.ok) return resultResponse(auth);
+    }
+    // Streams stay open until the client disconnects
+    server.timeout(req, 0);
+    return eventStream(req, projectResult.value.slug, agent);
+  }
+
   // 404
   return json({ error: { type: "NOT_FOUND", message: `Route not found: ${method} ${path}` } }, 404);
 }
@@ -313,6 +851,7 @@ export function startServer(port: number): void {
   // Start retention cleanup interval (every 6 hours)
   const config = loadConfig();
   retentionInterval = setInterval(() => {
+    sweepExpired();
     try {
       const result = runRetention(config.retention_days);
       if (result.messages > 0 || result.reservations > 0) {
@@ -323,7 +862,14 @@ export function startServer(port: number): void {
     }
   }, 6 * 60 * 60 * 1000);
 
+  // Release expired reservations promptly so expiration events fire on time
+  expiryInterval = setInterval(sweepExpired, 15 * 1000);
+
+  // Re-notify overdue acknowledgements (every minute)
+  reminderInterval = setInterval(sendAckReminders, 60 * 1000);
+
   // Run initial cleanup
+  sweepExpired();
   runRetention(config.retention_days);
 
   startTime = Date.now();
@@ -346,6 +892,12 @@ export function startServer(port: number): void {
     if (retentionInterval) {
       clearInterval(retentionInterval);
     }
+    if (expiryInterval) {
+      clearInterval(expiryInterval);
+    }
+    if (reminderInterval) {
+      clearInterval(reminderInterval);
+    }
     closeDb();
     removePid();
     server.stop();
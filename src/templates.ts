@@ -0,0 +1,210 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { paths } from "./config.js";
+import type { Importance, Result, ApiError } from "./types.js";
+import { Ok, Err, IMPORTANCE_LEVELS } from "./types.js";
+
+/**
+ * Message templates for `am send --template <name>`.
+ * Built-ins can be overridden by ~/.amicii/templates/<name>.md:
+ *
+ *   ---
+ *   subject: [{{bead}}] Starting
+ *   to: all
+ *   thread: {{bead}}
+ *   ---
+ *   {{agent}} is starting {{bead}}.
+ *
+ * Header keys: subject (required), to, cc, thread, importance, kind.
+ * Variables are written {{name}}, or {{name|default}} when optional.
+ */
+
+export interface MessageTemplate {
+  name: string;
+  source: "builtin" | "file";
+  subject: string;
+  to?: string;
+  cc?: string;
+  thread?: string;
+  importance?: Importance;
+  kind?: string;
+  body: string;
+}
+
+export type RenderedTemplate = Omit<MessageTemplate, "name" | "source">;
+
+/**
+ * Variables the CLI fills in from the session (overridable with --var).
+ */
+export const AUTO_VARIABLES = ["agent", "project", "reservations", "files"];
+
+const HEADER_KEYS = ["subject", "to", "cc", "thread", "importance", "kind"] as const;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+const BUILTIN_TEMPLATES: MessageTemplate[] = [
+  {
+    name: "start",
+    source: "builtin",
+    subject: "[{{bead}}] Starting",
+    to: "all",
+    thread: "{{bead}}",
+    body: "{{agent}} is starting {{bead}}.\n\nReservations:\n{{reservations}}",
+  },
+  {
+    name: "done",
+    source: "builtin",
+    subject: "[{{bead}}] Done",
+    to: "all",
+    thread: "{{bead}}",
+    body: "{{agent}} finished {{bead}}.\n\n{{notes|}}",
+  },
+  {
+    name: "blocked",
+    source: "builtin",
+    subject: "[{{bead}}] Blocked",
+    to: "all",
+    thread: "{{bead}}",
+    importance: "high",
+    body: "{{agent}} is blocked on {{bead}}: {{reason}}\n\nReservations:\n{{reservations}}",
+  },
+  {
+    name: "handoff",
+    source: "builtin",
+    subject: "[{{bead}}] Handoff",
+    to: "{{to}}",
+    thread: "{{bead}}",
+    body: "{{agent}} is handing off {{bead}} to you.\n\nFiles: {{files}}\n\nReservations:\n{{reservations}}\n\n{{notes|}}",
+  },
+];
+
+/**
+ * Parse a template file: an optional "---" header of key: value lines, then the body.
+ */
+function parseTemplate(name: string, text: string): Result<MessageTemplate, ApiError> {
+  const template: MessageTemplate = { name, source: "file", subject: "", body: text };
+
+  const header = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (header) {
+    template.body = text.slice(header[0].length);
+    for (const line of header[1].split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const colon = line.indexOf(":");
+      const key = line.slice(0, colon).trim() as typeof HEADER_KEYS[number];
+      if (colon === -1 || !HEADER_KEYS.includes(key)) {
+        return Err({
+          type: "INVALID_TEMPLATE",
+          message: `Template ${name}: unknown header line "${line}" (keys: ${HEADER_KEYS.join(", ")})`,
+          recoverable: true,
+        });
+      }
+      const value = line.slice(colon + 1).trim();
+      if (key === "importance") {
+        if (!IMPORTANCE_LEVELS.includes(value as Importance)) {
+          return Err({
+            type: "INVALID_TEMPLATE",
+            message: `Template ${name}: importance must be one of: ${IMPORTANCE_LEVELS.join(", ")}`,
+            recoverable: true,
+          });
+        }
+        template.importance = value as Importance;
+      } else {
+        template[key] = value;
+      }
+    }
+  }
+
+  if (!template.subject) {
+    return Err({
+      type: "INVALID_TEMPLATE",
+      message: `Template ${name}: subject header required`,
+      recoverable: true,
+    });
+  }
+
+  template.body = template.body.trim();
+  return Ok(template);
+}
+
+/**
+ * Template names found in ~/.amicii/templates.
+ */
+function fileTemplateNames(): string[] {
+  if (!existsSync(paths.templates)) return [];
+  return readdirSync(paths.templates)
+    .filter(file => file.endsWith(".md"))
+    .map(file => file.slice(0, -".md".length));
+}
+
+/**
+ * Load a template by name; files take precedence over built-ins.
+ */
+export function loadTemplate(name: string): Result<MessageTemplate, ApiError> {
+  const file = join(paths.templates, `${name}.md`);
+  if (existsSync(file)) {
+    return parseTemplate(name, readFileSync(file, "utf-8"));
+  }
+
+  const builtin = BUILTIN_TEMPLATES.find(t => t.name === name);
+  if (builtin) return Ok(builtin);
+
+  const known = [...new Set([...BUILTIN_TEMPLATES.map(t => t.name), ...fileTemplateNames()])].sort();
+  return Err({
+    type: "TEMPLATE_NOT_FOUND",
+    message: `Template not found: ${name} (known: ${known.join(", ")})`,
+    recoverable: true,
+  });
+}
+
+/**
+ * List available templates, sorted by name. Unparseable files are skipped.
+ */
+export function listTemplates(): MessageTemplate[] {
+  const names = new Set([...BUILTIN_TEMPLATES.map(t => t.name), ...fileTemplateNames()]);
+  return [...names]
+    .sort()
+    .map(name => loadTemplate(name))
+    .flatMap(result => (result.ok ? [result.value] : []));
+}
+
+/**
+ * Variables a template uses, with whether each is required (has no default).
+ */
+export function templateVariables(template: MessageTemplate): Map<string, boolean> {
+  const variables = new Map<string, boolean>();
+  const text = [template.subject, template.to, template.cc, template.thread, template.kind, template.body].join("\n");
+  for (const [, name, fallback] of text.matchAll(VARIABLE_PATTERN)) {
+    variables.set(name, (variables.get(name) ?? false) || fallback === undefined);
+  }
+  return variables;
+}
+
+/**
+ * Fill a template's variables. Fails listing every required variable without a value.
+ */
+export function renderTemplate(template: MessageTemplate, vars: Record<string, string>): Result<RenderedTemplate, ApiError> {
+  const missing = [...templateVariables(template)]
+    .filter(([name, required]) => required && vars[name] === undefined)
+    .map(([name]) => name);
+  if (missing.length > 0) {
+    return Err({
+      type: "MISSING_TEMPLATE_VARIABLE",
+      message: `Template ${template.name} needs: ${missing.map(name => `--var ${name}=...`).join(" ")}`,
+      recoverable: true,
+      data: { missing },
+    });
+  }
+
+  const fill = (text: string | undefined) =>
+    text?.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => vars[name] ?? fallback ?? "");
+
+  return Ok({
+    subject: fill(template.subject)!,
+    to: fill(template.to),
+    cc: fill(template.cc),
+    thread: fill(template.thread),
+    importance: template.importance,
+    kind: fill(template.kind),
+    body: fill(template.body)!.trim(),
+  });
+}
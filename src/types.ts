@@ -6,6 +6,10 @@ export type Result<T, E = Error> =
 export const Ok = <T>(value: T): Result<T, never> => ({ ok: true, value });
 export const Err = <E>(error: E): Result<never, E> => ({ ok: false, error });
 
+// Message importance, lowest first
+export type Importance = "low" | "normal" | "high" | "urgent";
+export const IMPORTANCE_LEVELS: Importance[] = ["low", "normal", "high", "urgent"];
+
 // API Error
 export interface ApiError {
   type: string;
@@ -19,9 +23,15 @@ export interface Project {
   id: number;
   slug: string;
   human_key: string;
+  strict_reservations: number; // 1 = overlapping exclusive reservations are refused
   created_at: string;
 }
 
+// linked: both projects agreed; requested: waiting on the other project; incoming: waiting on this one
+export interface LinkedProject extends Project {
+  status: "linked" | "requested" | "incoming";
+}
+
 export interface Agent {
   id: number;
   project_id: number;
@@ -31,6 +41,12 @@ export interface Agent {
   task_description: string;
   inception_ts: string;
   last_active_ts: string;
+  roles: string; // comma-separated, e.g. "backend,reviewer"
+}
+
+// Returned by registration; token is only present when newly issued
+export interface RegisteredAgent extends Agent {
+  token?: string;
 }
 
 export interface Message {
@@ -42,8 +58,34 @@ export interface Message {
   body_md: string;
   to_agents: string;
   cc_agents: string;
-  importance: "low" | "normal" | "high" | "urgent";
+  importance: Importance;
   ack_required: number; // SQLite uses 0/1 for boolean
+  reply_to_id: number | null;
+  ack_within_seconds: number | null;
+  deliver_ts: string | null; // Scheduled delivery time (null = immediate)
+  delivered_ts: string | null;
+  expires_ts: string | null; // Drops out of inboxes after this time
+  edited_ts: string | null;
+  retracted_ts: string | null;
+  kind: string | null; // structured message kind, e.g. "review_request"
+  payload: Record<string, unknown> | null; // validated against the kind's schema
+  created_ts: string;
+}
+
+// A message or revision row as stored: the payload is still JSON text
+export type Stored<T extends { payload: unknown }> = Omit<T, "payload"> & { payload: string | null };
+
+/**
+ * Prior content of a message, saved before each edit or retraction.
+ */
+export interface MessageRevision {
+  id: number;
+  message_id: number;
+  action: "edit" | "retract";
+  subject: string;
+  body_md: string;
+  payload: Record<string, unknown> | null;
+  reason: string;
   created_ts: string;
 }
 
@@ -53,8 +95,45 @@ export interface MessageRecipient {
   kind: "to" | "cc" | "bcc";
   read_ts: string | null;
   ack_ts: string | null;
+  ack_due_ts: string | null;
+  ack_reminders: number;
+  mentioned: number; // SQLite uses 0/1 for boolean
+  archived_ts: string | null;
+  starred: number;
+  labels: string; // comma-separated
+  deferred_until: string | null; // held back by the recipient's do-not-disturb
+}
+
+export type ContactMode = "open" | "allowlist";
+export const CONTACT_MODES: ContactMode[] = ["open", "allowlist"];
+
+export interface ContactPolicy {
+  agent_id: number;
+  mode: ContactMode;
+  allow: string; // comma-separated agent names (allowlist mode)
+  block: string; // comma-separated agent names
+  dnd_until: string | null; // below-urgent messages are deferred until then
+  updated_ts: string | null;
 }
 
+export interface Channel {
+  id: number;
+  project_id: number;
+  name: string; // without the leading "#"
+  description: string;
+  created_by: number | null;
+  created_ts: string;
+}
+
+export interface ChannelSummary extends Channel {
+  member_count: number;
+  members: string[];
+  joined: boolean; // whether the requesting agent is a member
+}
+
+// waiting = queued behind conflicting reservations until they are released or expire
+export type ReservationStatus = "granted" | "waiting";
+
 export interface FileReservation {
   id: number;
   project_id: number;
@@ -62,8 +141,10 @@ export interface FileReservation {
   path_pattern: string;
   exclusive: number; // SQLite uses 0/1 for boolean
   reason: string;
+  status: ReservationStatus;
+  ttl_seconds: number | null; // applied when a waiting reservation is granted
   created_ts: string;
-  expires_ts: string;
+  expires_ts: string; // for waiting reservations: when the request gives up
   released_ts: string | null;
 }
 
@@ -78,6 +159,7 @@ export interface RegisterAgentRequest {
   program: string;
   model: string;
   task_description?: string;
+  roles?: string[];
 }
 
 export interface SendMessageRequest {
@@ -85,11 +167,18 @@ export interface SendMessageRequest {
   sender: string;
   to: string[];
   cc?: string[];
+  bcc?: string[];
   subject: string;
   body_md: string;
   thread_id?: string;
-  importance?: "low" | "normal" | "high" | "urgent";
+  importance?: Importance;
   ack_required?: boolean;
+  reply_to_id?: number;
+  ack_within_seconds?: number;
+  deliver_at?: string;
+  expires_at?: string;
+  kind?: string;
+  payload?: Record<string, unknown>;
 }
 
 export interface CreateReservationRequest {
@@ -99,15 +188,22 @@ export interface CreateReservationRequest {
   ttl_seconds?: number;
   exclusive?: boolean;
   reason?: string;
+  strict?: boolean;
+  wait_seconds?: number; // queue behind conflicts instead of granting or refusing
 }
 
 export interface ReleaseReservationRequest {
   project_slug: string;
   agent: string;
-  pattern?: string;
+  id?: number;
+  pattern?: string; // glob over held patterns
   all?: boolean;
 }
 
+export interface RenewReservationRequest extends ReleaseReservationRequest {
+  ttl_seconds?: number;
+}
+
 // Inbox/outbox query params
 export interface InboxQuery {
   project: string;
@@ -130,31 +226,153 @@ export interface SearchQuery {
   limit?: number;
 }
 
+// Cursor pagination: pass `after` (a next_cursor) or `before` (a prev_cursor)
+export interface PageQuery {
+  limit?: number;
+  after?: string;
+  before?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  next_cursor: string | null; // more items after this page
+  prev_cursor: string | null; // more items before this page
+}
+
 // Extended types for API responses
 export interface MessageWithSender extends Message {
   sender_name: string;
 }
 
 export interface InboxMessage extends MessageWithSender {
+  recipient_kind: MessageRecipient["kind"];
+  mentioned: number; // 1 if the message @mentions this recipient
+  archived_ts: string | null;
+  starred: number;
+  labels: string; // comma-separated, per recipient
+  origin_project: string | null; // sending project, when it is a linked one
+  inbox_ts: string; // when it reached the inbox (delivery time for scheduled messages)
   read_ts: string | null;
   ack_ts: string | null;
 }
 
+export interface RecipientStatus {
+  agent_name: string;
+  kind: "to" | "cc" | "bcc";
+  read_ts: string | null;
+  ack_ts: string | null;
+}
+
+export interface MessageWithReceipts extends MessageWithSender {
+  recipients: RecipientStatus[];
+  bcc_agents?: string; // only present for the sender
+  project_slug?: string; // the message's project (single-message reads)
+}
+
+export interface ThreadView {
+  thread_id: string;
+  messages: MessageWithReceipts[];
+  participants: string[];
+  first_ts: string;
+  last_ts: string;
+}
+
+export interface ThreadSummary {
+  thread_id: string;
+  message_count: number;
+  participants: string[];
+  last_subject: string;
+  first_ts: string;
+  last_ts: string;
+}
+
+// One outstanding acknowledgement (message x recipient)
+export interface PendingAck {
+  message_id: number;
+  subject: string;
+  thread_id: string | null;
+  sender_name: string;
+  agent_name: string;
+  importance: Importance;
+  created_ts: string;
+  ack_due_ts: string | null;
+  ack_reminders: number;
+  overdue: boolean;
+}
+
+export interface PendingAcks {
+  owed: PendingAck[]; // messages this agent must acknowledge
+  awaiting: PendingAck[]; // recipients who have not acknowledged this agent's messages
+}
+
 export interface ReservationWithAgent extends FileReservation {
   agent_name: string;
 }
 
+// Which side's exclusivity causes a conflict: the existing holder's, or only the request's
+export type ConflictSide = "holder" | "requester";
+
 export interface ReservationConflict {
   id: number;
   agent_name: string;
   path_pattern: string;
+  exclusive: number; // the holder's reservation
+  status: ReservationStatus; // waiting = an earlier queued request
+  side: ConflictSide;
   expires_ts: string;
   reason: string;
 }
 
+export interface PatternOverlap {
+  a: string;
+  b: string;
+  overlap: boolean; // some path could be covered by both patterns
+  files?: string[]; // project files covered by both (when requested)
+}
+
 export interface ReservationResult {
   granted: FileReservation[];
   conflicts: ReservationConflict[];
+  waiting?: FileReservation; // queued instead of granted
+}
+
+// Real-time events
+export type EventType =
+  | "message.new"
+  | "message.read"
+  | "message.ack"
+  | "message.edited"
+  | "message.retracted"
+  | "reservation.granted"
+  | "reservation.waiting"
+  | "reservation.released"
+  | "reservation.renewed"
+  | "reservation.expired"
+  | "agent.registered";
+
+export interface AmiciiEvent {
+  id: number;
+  type: EventType;
+  project: string; // project slug
+  ts: string;
+  audience?: string[]; // agent names; omitted = whole project
+  data: Record<string, unknown>;
+}
+
+// Structured message kinds
+export type PayloadFieldType = "string" | "number" | "boolean" | "string[]" | "object";
+
+export interface PayloadField {
+  type: PayloadFieldType;
+  required?: boolean;
+  enum?: string[]; // allowed values for string fields
+  description?: string;
+}
+
+export interface KindSchema {
+  name: string;
+  description: string;
+  fields: Record<string, PayloadField>;
 }
 
 // Config
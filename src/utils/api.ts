@@ -1,15 +1,17 @@
 import { loadConfig } from "../config.js";
-import type { Result, ApiError } from "../types.js";
+import type { Result, ApiError, AmiciiEvent } from "../types.js";
 import { Ok, Err } from "../types.js";
 
 /**
  * Make an API request to the server.
+ * Pass the agent token to authenticate mutating requests.
  */
 export async function apiRequest<T>(
   method: "GET" | "POST",
   path: string,
   body?: Record<string, unknown>,
-  query?: Record<string, string | undefined>
+  query?: Record<string, string | undefined>,
+  token?: string
 ): Promise<Result<T, ApiError>> {
   const config = loadConfig();
   const baseUrl = `http://localhost:${config.port}`;
@@ -29,9 +31,13 @@ export async function apiRequest<T>(
   }
 
   try {
+    const headers: Record<string, string> = {};
+    if (body) headers["Content-Type"] = "application/json";
+    if (token) headers["Authorization"] = `Bearer ${token}`;
+
     const response = await fetch(url, {
       method,
-      headers: body ? { "Content-Type": "application/json" } : undefined,
+      headers,
       body: body ? JSON.stringify(body) : undefined,
     });
 
@@ -65,6 +71,74 @@ export async function apiRequest<T>(
   }
 }
 
+/**
+ * Open the server's event stream and invoke the callback for each event.
+ * Pass the agent token to stream that agent's events. Resolves when the stream ends.
+ */
+export async function streamEvents(
+  query: Record<string, string | undefined>,
+  onEvent: (event: AmiciiEvent) => void,
+  token?: string
+): Promise<Result<void, ApiError>> {
+  const config = loadConfig();
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      params.set(key, value);
+    }
+  }
+
+  try {
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    if (token) headers["Authorization"] = `Bearer ${token}`;
+
+    const response = await fetch(`http://localhost:${config.port}/api/events?${params}`, { headers });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      return Err(data?.error ?? {
+        type: "API_ERROR",
+        message: `HTTP ${response.status}: ${response.statusText}`,
+        recoverable: false,
+      });
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trimStart())
+          .join("\n");
+        if (data) {
+          onEvent(JSON.parse(data) as AmiciiEvent);
+        }
+      }
+    }
+
+    return Ok(undefined);
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes("fetch")) {
+      return Err({
+        type: "SERVER_UNAVAILABLE",
+        message: "Server not running. Start with: am serve",
+        recoverable: true,
+      });
+    }
+    return Err({
+      type: "API_ERROR",
+      message: error instanceof Error ? error.message : "Unknown error",
+      recoverable: false,
+    });
+  }
+}
+
 /**
  * Check if server is running.
  */
@@ -0,0 +1,168 @@
+import type { Page, PageQuery, Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+
+/**
+ * Sort key values of one row, in ORDER BY order.
+ */
+export type CursorKey = (string | number)[];
+
+export interface PageClause {
+  where: string; // " AND (...) < (...)", or "" without a cursor
+  orderBy: string;
+  limit: string;
+  params: (string | number)[]; // for where, then limit
+}
+
+export interface OffsetClause {
+  start: number; // offset of the first row fetched
+  limit: string; // " LIMIT ? OFFSET ?"
+  params: number[];
+}
+
+/**
+ * Encode a sort key as an opaque cursor. A sort mode, if given, is stored
+ * in front of the key so the cursor only works with that mode.
+ */
+export function encodeCursor(key: CursorKey, mode?: string): string {
+  return Buffer.from(JSON.stringify(mode ? [mode, ...key] : key)).toString("base64url");
+}
+
+/**
+ * Decode a cursor, returns null if it is malformed, has the wrong shape,
+ * or was made for another sort mode.
+ */
+export function decodeCursor(cursor: string, length: number, mode?: string): CursorKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (!Array.isArray(key) || key.length !== length + (mode ? 1 : 0)) return null;
+    if (!key.every(v => typeof v === "string" || typeof v === "number")) return null;
+    if (!mode) return key;
+    return key[0] === mode ? key.slice(1) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build keyset pagination SQL for a query ordered by `columns`, all in `direction`.
+ * Fetches one extra row so toPage() can tell whether another page exists.
+ * `before` pages are fetched in reverse order and flipped back by toPage().
+ */
+export function pageClause(
+  query: PageQuery,
+  columns: string[],
+  direction: "ASC" | "DESC",
+  mode?: string
+): Result<PageClause, ApiError> {
+  if (query.after && query.before) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "Use either after or before, not both",
+      recoverable: true,
+    });
+  }
+
+  const cursor = query.after ?? query.before;
+  const key = cursor ? decodeCursor(cursor, columns.length, mode) : null;
+  if (cursor && !key) {
+    return Err({
+      type: "INVALID_CURSOR",
+      message: mode ? `Invalid or expired cursor for sort: ${mode}` : "Invalid or expired cursor",
+      recoverable: true,
+    });
+  }
+
+  const backward = !!query.before;
+  const order = backward ? (direction === "ASC" ? "DESC" : "ASC") : direction;
+  const params: (string | number)[] = key ? [...key] : [];
+
+  let where = "";
+  if (key) {
+    const op = order === "DESC" ? "<" : ">";
+    where = ` AND (${columns.join(", ")}) ${op} (${columns.map(() => "?").join(", ")})`;
+  }
+
+  let limit = "";
+  if (query.limit) {
+    limit = " LIMIT ?";
+    params.push(query.limit + 1);
+  }
+
+  return Ok({
+    where,
+    orderBy: ` ORDER BY ${columns.map(c => `${c} ${order}`).join(", ")}`,
+    limit,
+    params,
+  });
+}
+
+/**
+ * Build offset pagination SQL, for orders that cannot anchor a keyset cursor
+ * (e.g. relevance ranks). Cursors hold a row offset and are bound to `scope`
+ * (e.g. the search string), so they only work for the query that made them.
+ * Fetches one extra row on forward pages so toOffsetPage() can tell whether another page exists.
+ */
+export function offsetClause(query: PageQuery, scope: string): Result<OffsetClause, ApiError> {
+  if (query.after && query.before) {
+    return Err({
+      type: "INVALID_INPUT",
+      message: "Use either after or before, not both",
+      recoverable: true,
+    });
+  }
+
+  const cursor = query.after ?? query.before;
+  const key = cursor ? decodeCursor(cursor, 1, scope) : null;
+  if (cursor && (!key || typeof key[0] !== "number" || key[0] < 0)) {
+    return Err({
+      type: "INVALID_CURSOR",
+      message: "Invalid or expired cursor for this query",
+      recoverable: true,
+    });
+  }
+
+  const position = key ? key[0] as number : 0;
+  if (query.before) {
+    // The page ending just before the cursor's row
+    const start = query.limit ? Math.max(0, position - query.limit) : 0;
+    return Ok({ start, limit: " LIMIT ? OFFSET ?", params: [position - start, start] });
+  }
+  return Ok({ start: position, limit: " LIMIT ? OFFSET ?", params: [query.limit ? query.limit + 1 : -1, position] });
+}
+
+/**
+ * Turn rows fetched with offsetClause() into a page with cursors (bound to the same scope).
+ */
+export function toOffsetPage<T>(rows: T[], query: PageQuery, start: number, scope: string): Page<T> {
+  const backward = !!query.before;
+  const hasMore = !backward && query.limit !== undefined && rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+  const end = start + items.length;
+
+  return {
+    items,
+    next_cursor: items.length > 0 && (backward || hasMore) ? encodeCursor([end], scope) : null,
+    prev_cursor: start > 0 ? encodeCursor([start], scope) : null,
+  };
+}
+
+/**
+ * Turn rows fetched with pageClause() into a page with cursors (tagged with the same mode).
+ */
+export function toPage<T>(rows: T[], query: PageQuery, key: (row: T) => CursorKey, mode?: string): Page<T> {
+  const backward = !!query.before;
+  const hasMore = query.limit !== undefined && rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+  if (backward) items.reverse();
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const moreAfter = backward ? true : hasMore;
+  const moreBefore = backward ? hasMore : !!query.after;
+
+  return {
+    items,
+    next_cursor: last !== undefined && moreAfter ? encodeCursor(key(last), mode) : null,
+    prev_cursor: first !== undefined && moreBefore ? encodeCursor(key(first), mode) : null,
+  };
+}
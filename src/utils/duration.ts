@@ -0,0 +1,49 @@
+/**
+ * Human-friendly duration parsing, e.g. "90", "30s", "15m", "2h", "1d", "1h30m".
+ */
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * Parse a duration into whole seconds. Bare numbers are seconds.
+ * Returns null if the input is not a valid duration of at least one second.
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const seconds = Math.round(parseFloat(value));
+    return seconds > 0 ? seconds : null;
+  }
+
+  if (!/^(\d+(\.\d+)?[smhd])+$/.test(value)) return null;
+
+  let total = 0;
+  for (const [, amount, , unit] of value.matchAll(/(\d+(\.\d+)?)([smhd])/g)) {
+    total += parseFloat(amount) * UNIT_SECONDS[unit];
+  }
+  const seconds = Math.round(total);
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Format seconds as a compact duration, e.g. 5400 -> "1h30m".
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const parts: string[] = [];
+  let rest = seconds;
+  for (const unit of ["d", "h", "m", "s"]) {
+    const size = UNIT_SECONDS[unit];
+    const count = Math.floor(rest / size);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      rest -= count * size;
+    }
+  }
+  return parts.join("");
+}
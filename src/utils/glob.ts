@@ -0,0 +1,355 @@
+import { readdirSync } from "fs";
+import { join } from "path";
+import type { Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+
+/**
+ * Glob matching and intersection for reservation patterns.
+ *
+ * Supported syntax: `*` (any run of characters within a path segment),
+ * `**` (any number of whole segments), `?` (one character), `[...]`
+ * character classes (ranges, `!`/`^` negation), `{a,b}` alternatives
+ * (nested) and `\` escapes. Paths are "/"-separated and relative to the
+ * project root; a leading "./" is ignored.
+ *
+ * For reservations a pattern also covers everything beneath what it
+ * matches, so reserving "src/auth" (or "src/auth/") reserves its files.
+ */
+
+type CharRange = [number, number];
+
+type Token =
+  | { type: "char"; code: number }
+  | { type: "any" } // ?
+  | { type: "class"; ranges: CharRange[]; negated: boolean }
+  | { type: "star" };
+
+type Segment = Token[] | "globstar";
+
+const MAX_ALTERNATIVES = 256;
+
+/**
+ * Expand {a,b} alternatives (nested, escapes respected). Braces without a
+ * top-level comma are kept literally.
+ */
+function expandBraces(pattern: string): string[] | null {
+  let depth = 0;
+  let open = -1;
+  const commas: number[] = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "{") {
+      if (depth === 0) {
+        open = i;
+        commas.length = 0;
+      }
+      depth++;
+    } else if (c === "," && depth === 1) {
+      commas.push(i);
+    } else if (c === "}" && depth > 0) {
+      depth--;
+      if (depth === 0 && commas.length > 0) {
+        const head = pattern.slice(0, open);
+        const tail = pattern.slice(i + 1);
+        const bounds = [open, ...commas, i];
+        const results: string[] = [];
+        for (let k = 0; k < bounds.length - 1; k++) {
+          const option = pattern.slice(bounds[k] + 1, bounds[k + 1]);
+          const expanded = expandBraces(head + option + tail);
+          if (!expanded) return null;
+          results.push(...expanded);
+          if (results.length > MAX_ALTERNATIVES) return null;
+        }
+        return results;
+      }
+    }
+  }
+
+  return [pattern];
+}
+
+/**
+ * Parse a [...] class starting at pattern[start] === "[".
+ * Returns null if the class is not closed (the "[" is then literal).
+ */
+function parseClass(pattern: string, start: number): { token: Token; end: number } | null {
+  let i = start + 1;
+  let negated = false;
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    negated = true;
+    i++;
+  }
+
+  const ranges: CharRange[] = [];
+  let first = true;
+  while (i < pattern.length && (pattern[i] !== "]" || first)) {
+    first = false;
+    let c = pattern[i];
+    if (c === "\\" && i + 1 < pattern.length) c = pattern[++i];
+    const lo = c.charCodeAt(0);
+    if (pattern[i + 1] === "-" && i + 2 < pattern.length && pattern[i + 2] !== "]") {
+      let h = pattern[i + 2];
+      i += 2;
+      if (h === "\\" && i + 1 < pattern.length) h = pattern[++i];
+      const hi = h.charCodeAt(0);
+      ranges.push(lo <= hi ? [lo, hi] : [hi, lo]);
+    } else {
+      ranges.push([lo, lo]);
+    }
+    i++;
+  }
+
+  if (i >= pattern.length) return null;
+  return { token: { type: "class", ranges, negated }, end: i };
+}
+
+/**
+ * Parse one path segment (no "/") into tokens.
+ */
+function parseSegment(segment: string): Segment {
+  if (segment === "**") return "globstar";
+
+  const tokens: Token[] = [];
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === "\\" && i + 1 < segment.length) {
+      tokens.push({ type: "char", code: segment.charCodeAt(++i) });
+    } else if (c === "*") {
+      // Runs of stars inside a segment behave like a single star
+      if (tokens[tokens.length - 1]?.type !== "star") tokens.push({ type: "star" });
+    } else if (c === "?") {
+      tokens.push({ type: "any" });
+    } else if (c === "[") {
+      const parsed = parseClass(segment, i);
+      if (parsed) {
+        tokens.push(parsed.token);
+        i = parsed.end;
+      } else {
+        tokens.push({ type: "char", code: c.charCodeAt(0) });
+      }
+    } else {
+      tokens.push({ type: "char", code: c.charCodeAt(0) });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Split a brace-free pattern into segments. With covering, a trailing
+ * globstar is added so the pattern also matches everything beneath it.
+ */
+function parseAlternative(pattern: string, covering: boolean): Segment[] {
+  const trimmed = pattern.replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  const segments = trimmed.split(/\/+/).filter(s => s !== "" && s !== ".").map(parseSegment);
+
+  // Collapse repeated globstars: **/** is the same as **
+  const collapsed = segments.filter((s, i) => !(s === "globstar" && segments[i - 1] === "globstar"));
+  if (covering && collapsed[collapsed.length - 1] !== "globstar") collapsed.push("globstar");
+  return collapsed;
+}
+
+/**
+ * Compile a pattern into its brace alternatives.
+ */
+function compile(pattern: string, covering: boolean): Result<Segment[][], ApiError> {
+  if (!pattern.trim()) {
+    return Err({
+      type: "INVALID_PATTERN",
+      message: "Pattern must not be empty",
+      recoverable: true,
+    });
+  }
+  const alternatives = expandBraces(pattern.trim());
+  if (!alternatives) {
+    return Err({
+      type: "INVALID_PATTERN",
+      message: `Pattern expands to more than ${MAX_ALTERNATIVES} alternatives: ${pattern}`,
+      recoverable: true,
+    });
+  }
+  return Ok(alternatives.map(alt => parseAlternative(alt, covering)));
+}
+
+/**
+ * Whether a set of character ranges contains a character outside another set.
+ */
+function rangesExceed(ranges: CharRange[], excluded: CharRange[]): boolean {
+  const sorted = [...excluded].sort((a, b) => a[0] - b[0]);
+  for (const [lo, hi] of ranges) {
+    let next = lo;
+    for (const [elo, ehi] of sorted) {
+      if (ehi < next) continue;
+      if (elo > next) break;
+      next = ehi + 1;
+      if (next > hi) break;
+    }
+    if (next <= hi) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether two single-character tokens can match the same character.
+ */
+function charsIntersect(a: Token, b: Token): boolean {
+  if (a.type === "any" || b.type === "any") {
+    const other = a.type === "any" ? b : a;
+    return other.type !== "class" || other.negated || other.ranges.length > 0;
+  }
+  const asRanges = (t: Token): { ranges: CharRange[]; negated: boolean } =>
+    t.type === "char" ? { ranges: [[t.code, t.code]], negated: false } : t.type === "class" ? t : { ranges: [], negated: true };
+
+  const x = asRanges(a);
+  const y = asRanges(b);
+  if (x.negated && y.negated) return true;
+  if (x.negated) return rangesExceed(y.ranges, x.ranges);
+  if (y.negated) return rangesExceed(x.ranges, y.ranges);
+  return x.ranges.some(([lo1, hi1]) => y.ranges.some(([lo2, hi2]) => lo1 <= hi2 && lo2 <= hi1));
+}
+
+/**
+ * Whether two segments can match a common string (product of the two
+ * automata, memoized over token positions).
+ */
+function segmentsIntersect(a: Token[], b: Token[]): boolean {
+  const memo = new Map<number, boolean>();
+  const visit = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    memo.set(key, false);
+
+    let result: boolean;
+    if (i === a.length && j === b.length) {
+      result = true;
+    } else if (a[i]?.type === "star" || b[j]?.type === "star") {
+      // A star may end here, or consume the other side's next character
+      result =
+        (a[i]?.type === "star" && (visit(i + 1, j) || (j < b.length && visit(i, j + 1)))) ||
+        (b[j]?.type === "star" && (visit(i, j + 1) || (i < a.length && visit(i + 1, j))));
+    } else if (i < a.length && j < b.length) {
+      result = charsIntersect(a[i], b[j]) && visit(i + 1, j + 1);
+    } else {
+      result = false;
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+  return visit(0, 0);
+}
+
+/**
+ * Whether two segment sequences can match a common path.
+ */
+function pathsIntersect(a: Segment[], b: Segment[]): boolean {
+  const memo = new Map<number, boolean>();
+  const visit = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    memo.set(key, false);
+
+    let result: boolean;
+    if (i === a.length && j === b.length) {
+      result = true;
+    } else if (a[i] === "globstar" || b[j] === "globstar") {
+      // A globstar may end here, or absorb the other side's next segment
+      result =
+        (a[i] === "globstar" && (visit(i + 1, j) || (j < b.length && visit(i, j + 1)))) ||
+        (b[j] === "globstar" && (visit(i, j + 1) || (i < a.length && visit(i + 1, j))));
+    } else if (i < a.length && j < b.length) {
+      result = segmentsIntersect(a[i] as Token[], b[j] as Token[]) && visit(i + 1, j + 1);
+    } else {
+      result = false;
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+  return visit(0, 0);
+}
+
+/**
+ * Escape glob syntax so a path matches only itself.
+ */
+function escapePath(path: string): string {
+  return path.replace(/[\\*?[\]{}]/g, "\\$&");
+}
+
+/**
+ * Check that a pattern parses.
+ */
+export function validateGlob(pattern: string): Result<true, ApiError> {
+  const compiled = compile(pattern, true);
+  return compiled.ok ? Ok(true) : compiled;
+}
+
+/**
+ * Whether two reservation patterns can cover a common path.
+ */
+export function globsOverlap(a: string, b: string): Result<boolean, ApiError> {
+  const left = compile(a, true);
+  if (!left.ok) return left;
+  const right = compile(b, true);
+  if (!right.ok) return right;
+
+  return Ok(left.value.some(x => right.value.some(y => pathsIntersect(x, y))));
+}
+
+/**
+ * Whether compiled alternatives cover a path.
+ */
+function coversPath(alternatives: Segment[][], path: string): boolean {
+  const target = compile(escapePath(path), false);
+  if (!target.ok) return false;
+  return alternatives.some(alt => pathsIntersect(alt, target.value[0]));
+}
+
+/**
+ * Whether a reservation pattern covers a path (the path itself or an ancestor matches).
+ */
+export function globCovers(pattern: string, path: string): boolean {
+  const compiled = compile(pattern, true);
+  return compiled.ok && coversPath(compiled.value, path);
+}
+
+const SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+/**
+ * List files under root (relative, "/"-separated) that every pattern covers.
+ * Skips .git and node_modules; stops after scanning maxFiles files.
+ */
+export function filesCoveredByAll(root: string, patterns: string[], limit = 50, maxFiles = 50_000): string[] {
+  const compiled = patterns.map(p => compile(p, true));
+  if (compiled.some(c => !c.ok)) return [];
+  const alternatives = compiled.map(c => (c.ok ? c.value : []));
+
+  const matches: string[] = [];
+  let scanned = 0;
+
+  const walk = (dir: string, prefix: string): void => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (matches.length >= limit || scanned >= maxFiles) return;
+      const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(join(dir, entry.name), rel);
+      } else {
+        scanned++;
+        if (alternatives.every(alts => coversPath(alts, rel))) matches.push(rel);
+      }
+    }
+  };
+
+  walk(root, "");
+  return matches.sort();
+}
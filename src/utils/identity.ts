@@ -0,0 +1,120 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { paths } from "../config.js";
+import type { Result, ApiError } from "../types.js";
+import { Ok, Err } from "../types.js";
+
+/**
+ * Agent identities and tokens registered from one worktree.
+ * Stored at ~/.amicii/identities/<project-slug>.json (mode 0600).
+ */
+export interface IdentityFile {
+  project_slug: string;
+  human_key: string;
+  agents: string[];
+  tokens: Record<string, string>;
+}
+
+export type IdentitySource = "flag" | "env" | "file" | "project";
+
+export interface ResolvedIdentity {
+  name: string;
+  source: IdentitySource;
+  token?: string;
+}
+
+function identityPath(projectSlug: string): string {
+  return join(paths.identities, `${projectSlug}.json`);
+}
+
+/**
+ * Load the identity file for a project, returns null if missing or invalid.
+ */
+export function loadIdentity(projectSlug: string): IdentityFile | null {
+  const file = identityPath(projectSlug);
+  if (!existsSync(file)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(file, "utf-8"));
+    return {
+      project_slug: parsed.project_slug ?? projectSlug,
+      human_key: parsed.human_key ?? "",
+      agents: Array.isArray(parsed.agents) ? parsed.agents : [],
+      tokens: parsed.tokens && typeof parsed.tokens === "object" ? parsed.tokens : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record an agent registered from this worktree, keeping its token if one was issued.
+ */
+export function saveIdentity(projectSlug: string, humanKey: string, agentName: string, token?: string): IdentityFile {
+  if (!existsSync(paths.identities)) {
+    mkdirSync(paths.identities, { recursive: true, mode: 0o700 });
+  }
+
+  const identity = loadIdentity(projectSlug) ?? { project_slug: projectSlug, human_key: humanKey, agents: [], tokens: {} };
+  identity.human_key = humanKey;
+  if (!identity.agents.includes(agentName)) {
+    identity.agents.push(agentName);
+  }
+  if (token) {
+    identity.tokens[agentName] = token;
+  }
+
+  writeFileSync(identityPath(projectSlug), JSON.stringify(identity, null, 2) + "\n", { mode: 0o600 });
+  return identity;
+}
+
+/**
+ * Look up the token for an agent: identity file first, then AMICII_TOKEN.
+ */
+export function getToken(projectSlug: string, agentName: string): string | undefined {
+  return loadIdentity(projectSlug)?.tokens[agentName] ?? (process.env.AMICII_TOKEN?.trim() || undefined);
+}
+
+/**
+ * Resolve the acting agent for this session.
+ * Order: --as flag, AMICII_AGENT env var, identity file, sole agent in project.
+ */
+export function resolveIdentity(
+  projectSlug: string,
+  projectAgents: string[],
+  explicit?: string
+): Result<ResolvedIdentity, ApiError> {
+  if (explicit) {
+    return Ok({ name: explicit, source: "flag", token: getToken(projectSlug, explicit) });
+  }
+
+  const fromEnv = process.env.AMICII_AGENT?.trim();
+  if (fromEnv) {
+    return Ok({ name: fromEnv, source: "env", token: getToken(projectSlug, fromEnv) });
+  }
+
+  const identity = loadIdentity(projectSlug);
+  const known = identity?.agents.filter(name => projectAgents.includes(name)) ?? [];
+  if (known.length === 1) {
+    return Ok({ name: known[0], source: "file", token: getToken(projectSlug, known[0]) });
+  }
+
+  const candidates = known.length > 1 ? known : projectAgents;
+  if (candidates.length === 1) {
+    return Ok({ name: candidates[0], source: "project", token: getToken(projectSlug, candidates[0]) });
+  }
+
+  if (candidates.length === 0) {
+    return Err({
+      type: "NO_AGENT",
+      message: "No agents registered. Run: am agent register",
+      recoverable: true,
+    });
+  }
+
+  return Err({
+    type: "AMBIGUOUS_AGENT",
+    message: `Multiple agents registered (${candidates.join(", ")}). Use --as <name> or set AMICII_AGENT`,
+    recoverable: true,
+    data: { candidates },
+  });
+}
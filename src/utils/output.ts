@@ -31,14 +31,16 @@ export function printKeyValue(obj: Record<string, unknown>, indent = 0): void {
 }
 
 /**
- * Print a simple table.
+ * Print a simple table. Pass header = false to continue a table
+ * across pages (needs fixed column widths).
  */
 export function printTable<T extends Record<string, unknown>>(
   data: T[],
-  columns: TableColumn[]
+  columns: TableColumn[],
+  header = true
 ): void {
   if (data.length === 0) {
-    console.log("(no results)");
+    if (header) console.log("(no results)");
     return;
   }
 
@@ -52,9 +54,11 @@ export function printTable<T extends Record<string, unknown>>(
   }
 
   // Print header
-  const header = columns.map(col => col.label.padEnd(widths[col.key])).join("  ");
-  console.log(header);
-  console.log("-".repeat(header.length));
+  if (header) {
+    const labels = columns.map(col => col.label.padEnd(widths[col.key])).join("  ");
+    console.log(labels);
+    console.log("-".repeat(labels.length));
+  }
 
   // Print rows
   for (const row of data) {